@@ -0,0 +1,66 @@
+import { useState, type FormEvent } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { createDetectionForMatch, resolveMovieInput } from '@/services/movieService';
+import type { OcrDetection } from '@/types/ocr';
+
+interface AddTitleByIdDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddTitle: (detection: OcrDetection) => void;
+}
+
+// Add a film that is already known exactly, without scanning
+export const AddTitleByIdDialog = ({ open, onOpenChange, onAddTitle }: AddTitleByIdDialogProps) => {
+  const { toast } = useToast();
+  const [input, setInput] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsResolving(true);
+    try {
+      const target = await resolveMovieInput(input);
+      onAddTitle(createDetectionForMatch(target));
+      toast({ title: 'Titel hinzugefügt', description: target.year ? `${target.title} (${target.year})` : target.title });
+      setInput('');
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Nicht gefunden',
+        description: error instanceof Error ? error.message : 'Titel konnte nicht gefunden werden',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Titel per ID hinzufügen</DialogTitle>
+          <DialogDescription>
+            IMDb-ID (tt…), IMDb- oder TMDB-Link oder TMDB-ID eingeben.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder="https://www.imdb.com/title/tt0095016/"
+            aria-label="IMDb- oder TMDB-ID"
+            autoFocus
+          />
+          <Button type="submit" disabled={isResolving || !input.trim()}>
+            {isResolving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
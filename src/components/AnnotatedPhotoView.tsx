@@ -0,0 +1,72 @@
+import { ShieldAlert, Star } from 'lucide-react';
+import { useMovieDataForTitles } from '@/hooks/useMovieData';
+import { getSpellings } from '@/lib/titleMerge';
+import type { OcrDetection, ScanImage } from '@/types/ocr';
+
+interface AnnotatedPhotoViewProps {
+  image: ScanImage;
+  rows: OcrDetection[]; // the merged title list
+  onSelectTitle: (title: string) => void;
+}
+
+// Captured photo with every recognized title outlined and its IMDb rating overlaid.
+// Boxes show the data of their list row (spellings merged, corrections applied, held-back rows not looked up),
+// so the overlay shares the list's queries instead of starting its own.
+export const AnnotatedPhotoView = ({ image, rows, onSelectTitle }: AnnotatedPhotoViewProps) => {
+  const boxedDetections = image.detections.filter(detection => detection.box);
+  const findRow = (title: string) => rows.find(row => getSpellings(row).includes(title));
+  const matchedRows = [...new Set(boxedDetections.map(detection => findRow(detection.title)).filter(row => row !== undefined))];
+  const { movieLookup } = useMovieDataForTitles(matchedRows);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative w-full overflow-hidden rounded-md bg-black">
+        <img src={image.dataUrl} alt="Aufgenommenes Foto" className="block w-full h-auto" />
+
+        {boxedDetections.map(detection => {
+          const box = detection.box!;
+          // Removed rows keep their box, but without data
+          const row = findRow(detection.title);
+          const rating = row && movieLookup[row.title]?.rating;
+
+          return (
+            <button
+              key={detection.title}
+              type="button"
+              onClick={() => onSelectTitle(detection.title)}
+              className={`absolute border-2 rounded-sm transition-colors ${row?.needsReview
+                ? 'border-amber-500 bg-amber-500/10 hover:bg-amber-500/25'
+                : row
+                  ? 'border-primary bg-primary/10 hover:bg-primary/25'
+                  : 'border-dashed border-muted-foreground bg-transparent'}`}
+              style={{
+                left: `${box.x * 100}%`,
+                top: `${box.y * 100}%`,
+                width: `${box.width * 100}%`,
+                height: `${box.height * 100}%`,
+              }}
+              title={row?.needsReview ? `${detection.title} (zur Prüfung zurückgehalten)` : row?.title ?? detection.title}
+            >
+              <span className="absolute -top-px left-0 -translate-y-full flex items-center gap-1 max-w-[12rem] rounded-sm bg-primary px-1 py-0.5 text-[10px] leading-none text-primary-foreground whitespace-nowrap">
+                {row?.needsReview && <ShieldAlert className="w-2.5 h-2.5 flex-shrink-0" aria-label="Zur Prüfung zurückgehalten" />}
+                <span className="truncate">{detection.title}</span>
+                {rating && (
+                  <span className="flex items-center gap-0.5 font-bold">
+                    <Star className="w-2.5 h-2.5 fill-yellow-400 text-yellow-400" />
+                    {rating}
+                  </span>
+                )}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {boxedDetections.length < image.detections.length && (
+        <p className="text-xs text-muted-foreground">
+          {image.detections.length - boxedDetections.length} Titel ohne Positionsangabe
+        </p>
+      )}
+    </div>
+  );
+};
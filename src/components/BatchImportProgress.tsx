@@ -0,0 +1,62 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, CheckCircle2, Clock, Loader2, X } from 'lucide-react';
+import type { ImportItem } from '@/types/import';
+
+interface BatchImportProgressProps {
+  items: ImportItem[];
+  isImporting: boolean;
+  onDismiss: () => void;
+}
+
+const StatusIcon = ({ item }: { item: ImportItem }) => {
+  switch (item.status) {
+    case 'processing':
+      return <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin text-primary" />;
+    case 'done':
+      return <CheckCircle2 className="w-4 h-4 flex-shrink-0 text-green-500" />;
+    case 'error':
+      return <AlertCircle className="w-4 h-4 flex-shrink-0 text-destructive" />;
+    default:
+      return <Clock className="w-4 h-4 flex-shrink-0 text-muted-foreground" />;
+  }
+};
+
+// Progress of a running or finished multi-image import
+export const BatchImportProgress = ({ items, isImporting, onDismiss }: BatchImportProgressProps) => {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const finishedCount = items.filter(item => item.status === 'done' || item.status === 'error').length;
+
+  return (
+    <div className="mb-3 rounded-lg border border-border bg-card p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          {isImporting ? 'Importiere Bilder' : 'Import abgeschlossen'} ({finishedCount}/{items.length})
+        </span>
+        {!isImporting && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismiss} title="Schließen">
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <Progress value={(finishedCount / items.length) * 100} className="h-1.5" />
+      <ul className="max-h-32 overflow-y-auto space-y-1">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-2 text-xs">
+            <StatusIcon item={item} />
+            <span className="flex-1 truncate" title={item.name}>{item.name}</span>
+            {item.status === 'done' && (
+              <span className="text-muted-foreground">{item.titleCount} Titel</span>
+            )}
+            {item.status === 'error' && (
+              <span className="text-destructive truncate max-w-[50%]" title={item.error}>{item.error}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -5,9 +5,10 @@ import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { CameraIcon, Loader2Icon } from 'lucide-react';
 import { extractTextFromImage } from '@/services/ocrService';
+import type { OcrDetection } from '@/types/ocr';
 
 interface CameraCaptureProps {
-  onTitlesExtracted: (titles: string[]) => void;
+  onTitlesExtracted: (detections: OcrDetection[]) => void;
 }
 
 export const CameraCapture = ({ onTitlesExtracted }: CameraCaptureProps) => {
@@ -52,7 +53,7 @@ export const CameraCapture = ({ onTitlesExtracted }: CameraCaptureProps) => {
         description: 'Filmtitel werden erkannt...',
       });
 
-      const extractedTitles = await extractTextFromImage(imageUrl);
+      const { detections: extractedTitles } = await extractTextFromImage(imageUrl);
 
       if (extractedTitles.length > 0) {
         onTitlesExtracted(extractedTitles);
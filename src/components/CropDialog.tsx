@@ -0,0 +1,103 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { BoundingBox } from '@/types/ocr';
+
+interface CropDialogProps {
+  imageUrl: string | null;
+  onConfirm: (crop?: BoundingBox) => void;
+  onCancel: () => void;
+}
+
+// Smallest selection (relative to the image) that still counts as a crop
+const MIN_CROP_SIZE = 0.05;
+
+// Lets the user drag a rectangle over the captured photo before it is sent to OCR
+export const CropDialog = ({ imageUrl, onConfirm, onCancel }: CropDialogProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [selection, setSelection] = useState<BoundingBox | null>(null);
+
+  const toRelativePoint = (event: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toRelativePoint(event);
+    setDragStart(point);
+    setSelection({ ...point, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = toRelativePoint(event);
+    setSelection({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const hasValidSelection = !!selection && selection.width >= MIN_CROP_SIZE && selection.height >= MIN_CROP_SIZE;
+
+  const reset = () => {
+    setSelection(null);
+    setDragStart(null);
+  };
+
+  const confirmSelection = (useSelection: boolean) => {
+    onConfirm(useSelection && hasValidSelection ? selection! : undefined);
+    reset();
+  };
+
+  const cancel = () => {
+    onCancel();
+    reset();
+  };
+
+  return (
+    <Dialog open={!!imageUrl} onOpenChange={(open) => !open && cancel()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bildausschnitt wählen</DialogTitle>
+          <DialogDescription>Ziehe einen Rahmen um die Titel oder verwende das ganze Bild.</DialogDescription>
+        </DialogHeader>
+
+        {imageUrl && (
+          <div
+            ref={containerRef}
+            className="relative w-full overflow-hidden select-none touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragStart(null)}
+          >
+            <img src={imageUrl} alt="Aufgenommenes Foto" className="block w-full h-auto pointer-events-none" draggable={false} />
+            {selection && (
+              <div
+                className="absolute border-2 border-primary bg-primary/10 shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                style={{
+                  left: `${selection.x * 100}%`,
+                  top: `${selection.y * 100}%`,
+                  width: `${selection.width * 100}%`,
+                  height: `${selection.height * 100}%`,
+                }}
+              />
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={cancel}>Abbrechen</Button>
+          <Button variant="secondary" onClick={() => confirmSelection(false)}>Ganzes Bild</Button>
+          <Button onClick={() => confirmSelection(true)} disabled={!hasValidSelection}>Ausschnitt verwenden</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Play, ScanLine, X } from 'lucide-react';
+import { useLiveScan } from '@/hooks/useLiveScan';
+import type { OcrDetection, ScanResultMeta } from '@/types/ocr';
+
+interface LiveScanViewProps {
+  knownTitles: string[];
+  onDetections: (imageUrl: string, detections: OcrDetection[], meta: ScanResultMeta) => void;
+  onClose: () => void;
+}
+
+const STOP_MESSAGES = {
+  inactivity: 'Keine neuen Titel mehr gefunden – Live-Scan pausiert, um das Kontingent zu schonen.',
+  error: 'Live-Scan wurde wegen eines Fehlers beendet.',
+  user: 'Live-Scan beendet.',
+};
+
+// Fullscreen camera preview for continuous scanning
+export const LiveScanView = ({ knownTitles, onDetections, onClose }: LiveScanViewProps) => {
+  const { videoRef, isActive, isProcessing, stats, stopReason, error, start, stop } = useLiveScan({
+    knownTitles,
+    onDetections,
+  });
+
+  // Start the camera as soon as the view opens
+  useEffect(() => {
+    void start();
+  }, [start]);
+
+  const close = () => {
+    stop('user');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col">
+      <video ref={videoRef} className="flex-1 w-full h-full object-cover" playsInline muted />
+
+      <div className="absolute top-0 left-0 right-0 p-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" className="gap-1">
+            <ScanLine className="w-3 h-3" />
+            {stats.newTitles} neue Titel
+          </Badge>
+          <Badge variant="outline" className="bg-background/60">{stats.framesSent} Anfragen</Badge>
+          {isProcessing && <Loader2 className="w-4 h-4 animate-spin text-white" />}
+        </div>
+        <Button variant="secondary" size="icon" className="rounded-full" onClick={close} title="Live-Scan beenden">
+          <X className="w-5 h-5" />
+        </Button>
+      </div>
+
+      {!isActive && stopReason && (
+        <div className="absolute bottom-0 left-0 right-0 p-4 pb-safe-area-inset-bottom bg-background/90 space-y-3">
+          <p className="text-sm text-center">{error ?? STOP_MESSAGES[stopReason]}</p>
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" onClick={close}>Schließen</Button>
+            <Button onClick={() => void start()}>
+              <Play className="w-4 h-4 mr-2" />
+              Weiter scannen
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
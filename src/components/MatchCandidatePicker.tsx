@@ -0,0 +1,134 @@
+import { useState, type FormEvent } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, ChevronsUpDown, Film, Link, Loader2, RotateCcw } from 'lucide-react';
+import { describeTitleVariant, getPosterUrl } from '@/services/tmdbService';
+import type { MatchCandidate } from '@/types/tmdb';
+
+interface MatchCandidatePickerProps {
+  candidates: MatchCandidate[];
+  selectedTmdbId: number | null;
+  selectedMediaType: 'movie' | 'tv' | null;
+  isManualMatch: boolean;
+  onSelect: (candidate: MatchCandidate) => void;
+  onReset: () => void;
+  onAssignId: (input: string) => Promise<void>; // rejects if the id can't be resolved
+}
+
+// Switch an ambiguous title ("Dune", "It", "Halloween") to one of the ranked TMDB runners-up,
+// or bind it to an IMDb/TMDB id; the choice is stored as a manual override for all later scans
+export const MatchCandidatePicker = ({
+  candidates,
+  selectedTmdbId,
+  selectedMediaType,
+  isManualMatch,
+  onSelect,
+  onReset,
+  onAssignId,
+}: MatchCandidatePickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [idInput, setIdInput] = useState('');
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const assignId = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsAssigning(true);
+    try {
+      await onAssignId(idInput);
+      setIdInput('');
+      setIsOpen(false);
+    } catch {
+      // The caller reports the failure, the input stays for a correction
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const isSelected = (candidate: MatchCandidate) =>
+    candidate.tmdbId === selectedTmdbId && candidate.mediaType === selectedMediaType;
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 hover:bg-primary/10 ${isManualMatch ? 'text-primary' : ''}`}
+          title={isManualMatch
+            ? 'Manuell zugeordnet – Zuordnung ändern'
+            : candidates.length > 1 ? `${candidates.length} mögliche Treffer – Zuordnung ändern` : 'Zuordnung ändern'}
+        >
+          <ChevronsUpDown className="w-3 h-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-1">
+        {candidates.length > 0 && <p className="px-2 py-1 text-xs text-muted-foreground">Welcher Titel ist gemeint?</p>}
+        {candidates.map(candidate => (
+          <button
+            key={`${candidate.mediaType}:${candidate.tmdbId}`}
+            type="button"
+            onClick={() => {
+              setIsOpen(false);
+              if (!isSelected(candidate)) onSelect(candidate);
+            }}
+            className="flex w-full items-center gap-2 rounded-sm p-1.5 text-left hover:bg-secondary/50"
+          >
+            {candidate.posterPath ? (
+              <img
+                src={getPosterUrl(candidate.posterPath)}
+                alt=""
+                loading="lazy"
+                className="h-12 w-8 flex-shrink-0 rounded-sm object-cover bg-muted"
+              />
+            ) : (
+              <div className="flex h-12 w-8 flex-shrink-0 items-center justify-center rounded-sm bg-muted">
+                <Film className="w-3 h-3 text-muted-foreground" />
+              </div>
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{candidate.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {[candidate.year, candidate.mediaType === 'tv' ? 'Serie' : 'Film', `Score ${candidate.score}`]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+              {candidate.matchedVariant && (
+                <p className="truncate text-xs text-muted-foreground">
+                  „{candidate.matchedVariant.title}“ ({describeTitleVariant(candidate.matchedVariant)})
+                </p>
+              )}
+            </div>
+            {isSelected(candidate) && <Check className="w-4 h-4 flex-shrink-0 text-primary" />}
+          </button>
+        ))}
+        {isManualMatch && (
+          <button
+            type="button"
+            onClick={() => {
+              setIsOpen(false);
+              onReset();
+            }}
+            className="mt-1 flex w-full items-center gap-2 rounded-sm border-t px-2 py-2 text-left text-xs text-muted-foreground hover:bg-secondary/50"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Korrektur entfernen, automatisch zuordnen
+          </button>
+        )}
+        <form onSubmit={assignId} className="mt-1 flex items-center gap-1 border-t px-1 pt-2 pb-1">
+          <Link className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+          <Input
+            value={idInput}
+            onChange={(event) => setIdInput(event.target.value)}
+            placeholder="IMDb-ID oder Link"
+            className="h-7 text-xs"
+            aria-label="Per IMDb- oder TMDB-ID zuordnen"
+          />
+          <Button type="submit" variant="ghost" size="sm" disabled={isAssigning || !idInput.trim()} className="h-7 w-7 p-0" title="Zuordnen">
+            {isAssigning ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,162 @@
+import { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, Download, Loader2, Pencil, Trash2, Upload, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useMatchOverrides } from '@/hooks/useMatchOverrides';
+import { exportMatchOverrides, importMatchOverrides, setMatchOverride } from '@/services/matchOverrideService';
+import { resolveMovieInput } from '@/services/movieService';
+import type { MatchOverride } from '@/types/matchOverride';
+
+interface MatchOverridesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const describeTarget = (override: MatchOverride) =>
+  override.imdbId ?? `TMDB ${override.mediaType === 'tv' ? 'Serie' : 'Film'} ${override.tmdbId}`;
+
+// Review, edit, delete and share the manual match corrections
+export const MatchOverridesDialog = ({ open, onOpenChange }: MatchOverridesDialogProps) => {
+  const { toast } = useToast();
+  const { overrides, removeOverride } = useMatchOverrides();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editId, setEditId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const entries = Object.values(overrides).sort((a, b) => a.ocrTitle.localeCompare(b.ocrTitle, 'de', { sensitivity: 'base' }));
+
+  const startEditing = (override: MatchOverride) => {
+    setEditingKey(override.key);
+    setEditId(override.imdbId ?? `${override.mediaType}/${override.tmdbId}`);
+  };
+
+  const saveEdit = async (override: MatchOverride) => {
+    setIsSaving(true);
+    try {
+      const target = await resolveMovieInput(editId);
+      setMatchOverride(override.ocrTitle, target);
+      setEditingKey(null);
+      toast({ title: 'Zuordnung geändert', description: `„${override.ocrTitle}“ → ${target.title}` });
+    } catch (error) {
+      console.error('Error updating match override:', error);
+      toast({
+        title: 'Fehler',
+        description: error instanceof Error ? error.message : 'Titel konnte nicht gefunden werden',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const downloadExport = () => {
+    const blob = new Blob([exportMatchOverrides()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `film-scanner-zuordnungen-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const { added, updated, skipped } = importMatchOverrides(await file.text());
+      toast({
+        title: 'Zuordnungen importiert',
+        description: `${added} neu, ${updated} aktualisiert${skipped > 0 ? `, ${skipped} übersprungen` : ''}`,
+      });
+    } catch (error) {
+      console.error('Error importing match overrides:', error);
+      toast({
+        title: 'Import fehlgeschlagen',
+        description: error instanceof Error ? error.message : 'Datei konnte nicht gelesen werden',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manuelle Zuordnungen</DialogTitle>
+          <DialogDescription>
+            Diese Titel werden immer dem gewählten Eintrag zugeordnet, ohne erneute Suche.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entries.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            Noch keine Korrekturen. Wähle in der Liste über das Pfeilsymbol einen anderen Treffer.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {entries.map(override => (
+              <div key={override.key} className="rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{override.ocrTitle}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      → {override.title}{override.year ? ` (${override.year})` : ''} · {describeTarget(override)}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(override)} className="h-6 w-6 p-0" title="Zuordnung bearbeiten">
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeOverride(override.key)} className="h-6 w-6 p-0 text-destructive hover:bg-destructive/10" title="Zuordnung löschen">
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+
+                {editingKey === override.key && (
+                  <div className="mt-2 flex items-center gap-1">
+                    <Input
+                      value={editId}
+                      onChange={(event) => setEditId(event.target.value)}
+                      placeholder="tt0816692, IMDb-/TMDB-Link oder TMDB-ID"
+                      className="h-8 flex-1 text-xs"
+                      aria-label="IMDb- oder TMDB-ID"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => saveEdit(override)} disabled={isSaving || !editId.trim()} className="h-8 w-8 p-0" title="Speichern">
+                      {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingKey(null)} className="h-8 w-8 p-0" title="Abbrechen">
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              if (file) void importFile(file);
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Importieren
+          </Button>
+          <Button variant="outline" size="sm" onClick={downloadExport} disabled={entries.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Exportieren
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
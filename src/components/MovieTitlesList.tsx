@@ -1,21 +1,41 @@
-import React, { useState, useCallback, useMemo, useDeferredValue } from 'react';
+import React, { useState, useCallback, useMemo, useDeferredValue, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Film, Copy, Trash2, ExternalLink, Loader2, Star, Search, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { Film, Copy, Trash2, ExternalLink, Loader2, Star, Search, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown, ShieldAlert, Check, X, Plus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useQueryClient, useQueries } from '@tanstack/react-query';
-import { fetchMovieData } from '@/services/movieService';
+import { useQueryClient } from '@tanstack/react-query';
+import { useMovieDataForTitles } from '@/hooks/useMovieData';
+import { useMatchOverrides } from '@/hooks/useMatchOverrides';
+import { getOverrideKey, setMatchOverride } from '@/services/matchOverrideService';
+import { resolveMovieInput } from '@/services/movieService';
+import { AddTitleByIdDialog } from '@/components/AddTitleByIdDialog';
+import { describeTitleVariant } from '@/services/tmdbService';
+import { MatchCandidatePicker } from '@/components/MatchCandidatePicker';
+import { WatchProviders } from '@/components/WatchProviders';
+import type { OcrDetection } from '@/types/ocr';
 
 interface MovieTitlesListProps {
-  titles: string[];
+  titles: OcrDetection[];
   onClear: () => void;
+  onConfirmTitle: (title: string) => void;
+  onRemoveTitle: (title: string) => void;
+  onMergeResolvedTitles: (imdbIds: Record<string, string | null>) => void;
+  onAddTitle: (detection: OcrDetection) => void;
+  highlightedTitle?: string | null;
 }
 
+const getRowId = (title: string) => `movie-row-${encodeURIComponent(title)}`;
+
 export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTitlesList({
   titles,
   onClear,
+  onConfirmTitle,
+  onRemoveTitle,
+  onMergeResolvedTitles,
+  onAddTitle,
+  highlightedTitle,
 }) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -24,31 +44,30 @@ export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTi
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'title' | 'rating' | 'hasImdb' | 'none'>('none');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [isAddByIdOpen, setIsAddByIdOpen] = useState(false);
   const deferredSearchTerm = useDeferredValue(searchTerm);
 
-  // A single useQueries call to fetch all data concurrently for each title
-  const movieQueries = useQueries({
-    queries: titles.map(title => {
-      return {
-        queryKey: ['movieData', title],
-        queryFn: () => fetchMovieData(title),
-        staleTime: 1000 * 60 * 60, // 1 hour
-        retry: 2,
-      };
-    }),
-  });
-
-  // Aggregate loading and error states from all queries
-  const isError = movieQueries.some(q => q.isError);
-
-  // Correctly extract successful data and create a lookup map WITHOUT faulty useMemo
-  const allMovieData = movieQueries
-    .filter(q => q.isSuccess && q.data)
-    .map(q => q.data!);
-
-  const movieLookup: Record<string, any> = Object.fromEntries(
-    allMovieData.map(data => [data.ocrTitle, data])
-  );
+  const { allMovieData, movieLookup, loadingTitles, isError } = useMovieDataForTitles(titles);
+  const { overrideWithCandidate, removeOverride } = useMatchOverrides();
+  const reviewCount = titles.filter(detection => detection.needsReview).length;
+
+  // Hand rows that resolved to the same IMDb title to the parent for merging
+  useEffect(() => {
+    const imdbIds = titles
+      .map(detection => movieLookup[detection.title]?.imdbId)
+      .filter((imdbId): imdbId is string => !!imdbId);
+    if (new Set(imdbIds).size === imdbIds.length) return;
+
+    onMergeResolvedTitles(Object.fromEntries(
+      titles.map(detection => [detection.title, movieLookup[detection.title]?.imdbId ?? null])
+    ));
+  }, [titles, movieLookup, onMergeResolvedTitles]);
+
+  // Scroll to a row that was selected elsewhere (e.g. in the annotated photo view)
+  useEffect(() => {
+    if (!highlightedTitle) return;
+    document.getElementById(getRowId(highlightedTitle))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedTitle]);
 
   // Stable callbacks with useCallback
   const copyToClipboard = useCallback(async (text: string, description: string) => {
@@ -61,7 +80,7 @@ export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTi
   }, [toast]);
 
   const copyAllTitles = useCallback(async () => {
-    const allTitlesText = titles.join('\n');
+    const allTitlesText = titles.map(detection => detection.title).join('\n');
     await copyToClipboard(allTitlesText, `${titles.length} Titel wurden in die Zwischenablage kopiert`);
   }, [titles, copyToClipboard]);
 
@@ -85,6 +104,22 @@ export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTi
   }, [allMovieData, copyToClipboard]);
 
 
+  // Rows where OCR or matching failed can be bound to a known id; this is stored as a correction
+  const assignIdToTitle = useCallback(async (title: string, input: string) => {
+    try {
+      const target = await resolveMovieInput(input);
+      setMatchOverride(title, target);
+      toast({ title: 'Zuordnung gespeichert', description: `„${title}“ → ${target.title}` });
+    } catch (error) {
+      toast({
+        title: 'Nicht gefunden',
+        description: error instanceof Error ? error.message : 'Titel konnte nicht gefunden werden',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  }, [toast]);
+
   const openImdbPage = useCallback((imdbId: string) => {
     window.open(`https://www.imdb.com/title/${imdbId}`, '_blank');
   }, []);
@@ -108,17 +143,17 @@ export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTi
   }, [sortBy, sortOrder]);
 
   const filteredAndSortedTitles = useMemo(() => {
-    let filtered = titles.filter(title => title.toLowerCase().includes(deferredSearchTerm.toLowerCase()));
+    const filtered = titles.filter(detection => detection.title.toLowerCase().includes(deferredSearchTerm.toLowerCase()));
 
     if (sortBy !== 'none') {
       filtered.sort((a, b) => {
-        const movieInfoA = movieLookup[a];
-        const movieInfoB = movieLookup[b];
+        const movieInfoA = movieLookup[a.title];
+        const movieInfoB = movieLookup[b.title];
         let comparison = 0;
 
         switch (sortBy) {
           case 'title':
-            comparison = a.localeCompare(b, 'de', { sensitivity: 'base' });
+            comparison = a.title.localeCompare(b.title, 'de', { sensitivity: 'base' });
             break;
           case 'rating':
             const ratingA = movieInfoA?.rating ?? 0;
@@ -137,12 +172,20 @@ export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTi
     return filtered;
   }, [titles, deferredSearchTerm, sortBy, sortOrder, movieLookup]);
 
+  const addByIdDialog = (
+    <AddTitleByIdDialog open={isAddByIdOpen} onOpenChange={setIsAddByIdOpen} onAddTitle={onAddTitle} />
+  );
+
   if (titles.length === 0) {
     return (
       <Card className="bg-gradient-card shadow-card border-border p-8 text-center">
         <Film className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
         <h3 className="text-lg font-semibold mb-2">Noch keine Titel erkannt</h3>
         <p className="text-muted-foreground">Verwende die Kamera um Filmcover zu scannen</p>
+        <Button variant="link" size="sm" onClick={() => setIsAddByIdOpen(true)} className="mt-2 text-xs">
+          oder per IMDb-/TMDB-ID hinzufügen
+        </Button>
+        {addByIdDialog}
       </Card>
     );
   }
@@ -154,6 +197,7 @@ export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTi
           <Badge variant="secondary" className="text-xs px-1.5 py-0.5">{titles.length} Film{titles.length !== 1 ? 'e' : ''}</Badge>
         </div>
         <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => setIsAddByIdOpen(true)} className="h-6 px-2 text-xs" title="Titel per ID hinzufügen"><Plus className="w-3 h-3" /></Button>
           <Button variant="ghost" size="sm" onClick={copyAllTitles} className="h-6 px-2 text-xs" title="Alle Titel kopieren"><Copy className="w-3 h-3" /></Button>
           <Button variant="ghost" size="sm" onClick={onClear} className="h-6 px-2 text-xs text-destructive hover:bg-destructive/10" title="Alle löschen"><Trash2 className="w-3 h-3" /></Button>
         </div>
@@ -170,6 +214,14 @@ export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTi
         </Button>
       </div>
 
+      {reviewCount > 0 && (
+        <div className="mb-3 p-2 rounded bg-amber-50 dark:bg-amber-900/20 border border-amber-300/50">
+          <p className="text-xs text-amber-800 dark:text-amber-200">
+            {reviewCount} Titel wurden zurückgehalten, weil die Erkennung auffällig war. Bitte bestätigen oder entfernen.
+          </p>
+        </div>
+      )}
+
       {isError && (
         <div className="mb-3 p-2 rounded bg-destructive/5 border border-destructive/20">
           <p className="text-xs text-destructive">Einige Filmdaten konnten nicht geladen werden. Bitte versuche es später erneut.</p>
@@ -177,37 +229,84 @@ export const MovieTitlesList = React.memo<MovieTitlesListProps>(function MovieTi
       )}
 
       <div className="space-y-1">
-        {filteredAndSortedTitles.map((title) => {
+        {filteredAndSortedTitles.map((detection) => {
+          const { title } = detection;
           const movieInfo = movieLookup[title];
-          // Find the query by title to ensure the correct loading state is always shown
-          const query = movieQueries.find(q => q && q.queryKey && q.queryKey[1] === title);
-          const isTitleLoading = query?.isLoading ?? false;
+          const isTitleLoading = loadingTitles.has(title);
+          const hintText = [
+            detection.year,
+            detection.season ? `Staffel ${detection.season}` : detection.mediaType === 'series' ? 'Serie' : null,
+          ].filter(Boolean).join(' · ');
 
           return (
-            <div key={title} className={`group flex items-center justify-between p-2 rounded-md hover:bg-secondary/50 transition-colors border border-transparent hover:border-secondary/30 ${movieInfo?.rating >= 7 ? 'bg-green-50/30 dark:bg-green-900/10' : ''}`}>
+            <div key={title} id={getRowId(title)} className={`group flex items-center justify-between p-2 rounded-md hover:bg-secondary/50 transition-colors border hover:border-secondary/30 ${title === highlightedTitle ? 'border-primary' : 'border-transparent'} ${(movieInfo?.rating ?? 0) >= 7 ? 'bg-green-50/30 dark:bg-green-900/10' : ''}`}>
               <div className="flex items-center gap-2 flex-1 min-w-0">
-                <h4 className="font-medium text-sm truncate flex-1">{title}</h4>
+                <h4 className="font-medium text-sm truncate flex-1">
+                  {title}
+                  {hintText && <span className="ml-1 text-xs font-normal text-muted-foreground">{hintText}</span>}
+                  {detection.variants && (
+                    <span className="ml-1 text-xs font-normal text-muted-foreground" title={detection.variants.join('\n')}>
+                      +{detection.variants.length} Schreibweise{detection.variants.length !== 1 ? 'n' : ''}
+                    </span>
+                  )}
+                  {movieInfo?.matchedVariant && (
+                    <span
+                      className="ml-1 text-xs font-normal text-muted-foreground"
+                      title={`Erkannt über ${describeTitleVariant(movieInfo.matchedVariant)}: „${movieInfo.matchedVariant.title}“`}
+                    >
+                      = {movieInfo.title}
+                    </span>
+                  )}
+                </h4>
                 {isTitleLoading && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground flex-shrink-0" />}
               </div>
 
-              <div className="flex items-center gap-2 flex-shrink-0">
-                {movieInfo?.imdbId ? (
-                  <Button variant="ghost" size="sm" onClick={() => openImdbPage(movieInfo.imdbId!)} className="h-6 w-6 p-0 hover:bg-primary/10" title="IMDb öffnen">
-                    <ExternalLink className="w-3 h-3" />
+              {detection.needsReview ? (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <ShieldAlert className="w-3 h-3 text-amber-500" aria-label="Zur Prüfung zurückgehalten" />
+                  <Button variant="ghost" size="sm" onClick={() => onConfirmTitle(title)} className="h-6 w-6 p-0 hover:bg-primary/10" title="Titel übernehmen">
+                    <Check className="w-3 h-3" />
                   </Button>
-                ) : <span className="text-xs text-muted-foreground w-6 text-center">—</span>}
-
-                {movieInfo?.rating ? (
-                  <div className="flex items-center gap-1 bg-yellow-50 dark:bg-yellow-900/20 px-2 py-1 rounded-full">
-                    <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
-                    <span className="font-bold text-sm text-yellow-700 dark:text-yellow-300">{movieInfo.rating}</span>
-                  </div>
-                ) : <span className="text-xs text-muted-foreground w-8 text-center">—</span>}
-              </div>
+                  <Button variant="ghost" size="sm" onClick={() => onRemoveTitle(title)} className="h-6 w-6 p-0 text-destructive hover:bg-destructive/10" title="Titel entfernen">
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {/* Rows without a match get the picker too, to bind them to a known id */}
+                  {movieInfo && (movieInfo.candidates.length > 1 || movieInfo.isManualMatch || !movieInfo.imdbId) && (
+                    <MatchCandidatePicker
+                      candidates={movieInfo.candidates}
+                      selectedTmdbId={movieInfo.tmdbId}
+                      selectedMediaType={movieInfo.mediaType}
+                      isManualMatch={movieInfo.isManualMatch}
+                      onSelect={(candidate) => overrideWithCandidate(title, candidate)}
+                      onReset={() => removeOverride(getOverrideKey(title))}
+                      onAssignId={(input) => assignIdToTitle(title, input)}
+                    />
+                  )}
+                  {movieInfo?.tmdbId && (
+                    <WatchProviders tmdbId={movieInfo.tmdbId} mediaType={movieInfo.mediaType} title={movieInfo.title ?? title} />
+                  )}
+                  {movieInfo?.imdbId ? (
+                    <Button variant="ghost" size="sm" onClick={() => openImdbPage(movieInfo.imdbId!)} className="h-6 w-6 p-0 hover:bg-primary/10" title={`IMDb öffnen: ${movieInfo.title}`}>
+                      <ExternalLink className="w-3 h-3" />
+                    </Button>
+                  ) : <span className="text-xs text-muted-foreground w-6 text-center">—</span>}
+
+                  {movieInfo?.rating ? (
+                    <div className="flex items-center gap-1 bg-yellow-50 dark:bg-yellow-900/20 px-2 py-1 rounded-full">
+                      <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                      <span className="font-bold text-sm text-yellow-700 dark:text-yellow-300">{movieInfo.rating}</span>
+                    </div>
+                  ) : <span className="text-xs text-muted-foreground w-8 text-center">—</span>}
+                </div>
+              )}
             </div>
           );
         })}
       </div>
+      {addByIdDialog}
     </Card>
   );
 });
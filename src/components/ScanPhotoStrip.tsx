@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AnnotatedPhotoView } from '@/components/AnnotatedPhotoView';
+import type { OcrDetection, ScanImage } from '@/types/ocr';
+
+interface ScanPhotoStripProps {
+  images: ScanImage[];
+  rows: OcrDetection[]; // the merged title list, the overlay shows its data
+  onSelectTitle: (title: string) => void;
+}
+
+// Thumbnails of all captured photos, each opening the annotated photo view
+export const ScanPhotoStrip = ({ images, rows, onSelectTitle }: ScanPhotoStripProps) => {
+  const [openImageId, setOpenImageId] = useState<string | null>(null);
+  const openImage = images.find(image => image.id === openImageId) ?? null;
+
+  if (images.length === 0) {
+    return null;
+  }
+
+  const selectTitle = (title: string) => {
+    setOpenImageId(null);
+    onSelectTitle(title);
+  };
+
+  return (
+    <>
+      <div className="flex gap-2 overflow-x-auto pb-2 mb-2">
+        {images.map(image => (
+          <button
+            key={image.id}
+            type="button"
+            onClick={() => setOpenImageId(image.id)}
+            className="relative flex-shrink-0 h-16 w-16 overflow-hidden rounded-md border border-border hover:border-primary transition-colors"
+            title="Foto mit markierten Titeln anzeigen"
+          >
+            <img src={image.dataUrl} alt="" className="h-full w-full object-cover" />
+            <span className="absolute bottom-0 right-0 rounded-tl-md bg-background/80 px-1 text-[10px] font-medium">
+              {image.detections.length}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={!!openImage} onOpenChange={(open) => !open && setOpenImageId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Erkannte Titel</DialogTitle>
+            <DialogDescription>
+              Tippe auf einen Rahmen, um den Eintrag in der Liste zu öffnen.
+              {openImage?.model && <span className="block text-xs mt-1">Erkannt mit {openImage.model}</span>}
+            </DialogDescription>
+          </DialogHeader>
+          {openImage && <AnnotatedPhotoView image={openImage} rows={rows} onSelectTitle={selectTitle} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,51 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Clapperboard, Library, Newspaper, ScanText, Tv, type LucideIcon } from 'lucide-react';
+import { useSettings } from '@/hooks/useSettings';
+import { SCAN_PROFILES } from '@/lib/scanProfiles';
+import type { ScanProfileId } from '@/types/scanProfile';
+
+const PROFILE_ICONS: Record<ScanProfileId, LucideIcon> = {
+  general: ScanText,
+  streaming: Tv,
+  shelf: Library,
+  poster: Clapperboard,
+  tvGuide: Newspaper,
+};
+
+interface ScanProfilePickerProps {
+  disabled?: boolean;
+}
+
+// Choose what is being scanned before taking the photo; the choice is remembered in the settings
+export const ScanProfilePicker = ({ disabled }: ScanProfilePickerProps) => {
+  const { settings, setSettings } = useSettings();
+
+  return (
+    <Select
+      value={settings.scanProfile}
+      onValueChange={(value) => setSettings({ scanProfile: value as ScanProfileId })}
+      disabled={disabled}
+    >
+      <SelectTrigger
+        className="pointer-events-auto w-auto gap-2 rounded-full bg-secondary shadow-lg h-9 px-4 text-sm"
+        title="Scan-Profil"
+        aria-label="Scan-Profil"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(SCAN_PROFILES).map(profile => {
+          const Icon = PROFILE_ICONS[profile.id];
+          return (
+            <SelectItem key={profile.id} value={profile.id}>
+              <span className="flex items-center gap-2">
+                <Icon className="w-4 h-4 flex-shrink-0" />
+                <span>{profile.label}</span>
+              </span>
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+};
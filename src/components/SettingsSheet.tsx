@@ -0,0 +1,626 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { ArrowDown, ArrowUp, Download, Loader2, Plus, Settings, Check, Trash2, X, ListChecks } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/useSettings';
+import { useMatchOverrides } from '@/hooks/useMatchOverrides';
+import { MatchOverridesDialog } from '@/components/MatchOverridesDialog';
+import { isLocalOcrModelDownloaded, localOcrProvider } from '@/services/localOcrProvider';
+import { clearOcrCache, getOcrCacheStats } from '@/services/ocrCacheService';
+import { clearHttpCache, getHttpCacheStats } from '@/services/httpCacheService';
+import { DEFAULT_API_BASE_URLS, isValidApiBaseUrl } from '@/services/apiEndpointService';
+import { SCAN_PROFILES } from '@/lib/scanProfiles';
+import { LANGUAGE_OPTIONS, REGION_OPTIONS, getLanguageLabel } from '@/lib/locale';
+import type { OcrProviderPreference, OcrRequestSettings, TilingMode, TilingSettings } from '@/types/ocr';
+import type { PreprocessSettings } from '@/types/preprocess';
+import type { GeminiGenerationSettings, LocaleSettings } from '@/types/settings';
+import type { ScanProfileId } from '@/types/scanProfile';
+import type { HttpCacheStats } from '@/types/httpCache';
+import type { ApiProviderId } from '@/types/api';
+
+const OCR_PROVIDER_OPTIONS: Array<{ value: OcrProviderPreference; label: string }> = [
+  { value: 'auto', label: 'Automatisch (Gemini, offline als Fallback)' },
+  { value: 'gemini', label: 'Nur Google Gemini (online)' },
+  { value: 'local', label: 'Nur auf dem Gerät (offline)' },
+];
+
+const TIMEOUT_OPTIONS = [15000, 30000, 60000];
+
+const RETRY_OPTIONS = [0, 1, 2, 3];
+
+const MAX_OUTPUT_TOKEN_OPTIONS = [1024, 2048, 4096, 8192];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const MAX_EDGE_OPTIONS = [1024, 1280, 1600, 2048];
+
+const TILING_MODE_OPTIONS: Array<{ value: TilingMode; label: string }> = [
+  { value: 'auto', label: 'Automatisch bei vielen Titeln' },
+  { value: 'always', label: 'Immer' },
+  { value: 'off', label: 'Aus' },
+];
+
+const GRID_SIZE_OPTIONS = [2, 3];
+
+const PREPROCESSING_TOGGLES: Array<{ key: keyof Omit<PreprocessSettings, 'maxEdge'>; label: string }> = [
+  { key: 'enabled', label: 'Bild vor der Erkennung optimieren' },
+  { key: 'deskew', label: 'Schräge Fotos automatisch begradigen' },
+  { key: 'enhanceContrast', label: 'Kontrast verstärken & Spiegelungen reduzieren' },
+  { key: 'askForCrop', label: 'Nach der Aufnahme Ausschnitt wählen' },
+];
+
+const API_BASE_URL_FIELDS: Array<{ provider: ApiProviderId; label: string }> = [
+  { provider: 'tmdb', label: 'TMDB' },
+  { provider: 'omdb', label: 'OMDb' },
+  { provider: 'gemini', label: 'Google Gemini' },
+];
+
+interface SettingsSheetProps {
+  // Optional control from outside, e.g. to open the settings from an error message
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export const SettingsSheet = ({ open, onOpenChange }: SettingsSheetProps) => {
+  const { settings, setSettings } = useSettings();
+  const { toast } = useToast();
+  const [isLoadingModel, setIsLoadingModel] = useState(false);
+  const [isModelReady, setIsModelReady] = useState(localOcrProvider.isInitialized() || isLocalOcrModelDownloaded());
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const isOpen = open ?? uncontrolledOpen;
+  const setIsOpen = onOpenChange ?? setUncontrolledOpen;
+  const [ocrCacheEntries, setOcrCacheEntries] = useState<number | null>(null);
+  const [httpCacheStats, setHttpCacheStats] = useState<HttpCacheStats | null>(null);
+  const [isOverridesOpen, setIsOverridesOpen] = useState(false);
+  const { overrides } = useMatchOverrides();
+  const overrideCount = Object.keys(overrides).length;
+  const [newModelName, setNewModelName] = useState('');
+  const [generationProfileId, setGenerationProfileId] = useState<ScanProfileId>(settings.scanProfile);
+  const generation = settings.gemini.generation[generationProfileId];
+
+  // Refresh the cache sizes whenever the sheet is opened
+  useEffect(() => {
+    if (!isOpen) return;
+    getOcrCacheStats()
+      .then(stats => setOcrCacheEntries(stats.entryCount))
+      .catch(error => console.warn('Could not read OCR cache stats:', error));
+    getHttpCacheStats()
+      .then(setHttpCacheStats)
+      .catch(error => console.warn('Could not read API cache stats:', error));
+  }, [isOpen]);
+
+  const updateOcrRequest = (patch: Partial<OcrRequestSettings>) => {
+    setSettings({ ocrRequest: { ...settings.ocrRequest, ...patch } });
+  };
+
+  const setGeminiModels = (models: string[]) => {
+    setSettings({ gemini: { ...settings.gemini, models } });
+  };
+
+  const addGeminiModel = () => {
+    const name = newModelName.trim();
+    if (!name || settings.gemini.models.includes(name)) return;
+    setGeminiModels([...settings.gemini.models, name]);
+    setNewModelName('');
+  };
+
+  const moveGeminiModel = (index: number, offset: number) => {
+    const models = [...settings.gemini.models];
+    [models[index], models[index + offset]] = [models[index + offset], models[index]];
+    setGeminiModels(models);
+  };
+
+  const updateLocale = (patch: Partial<LocaleSettings>) => {
+    setSettings({ locale: { ...settings.locale, ...patch } });
+  };
+
+  const moveFallbackLanguage = (index: number, offset: number) => {
+    const fallbackLanguages = [...settings.locale.fallbackLanguages];
+    [fallbackLanguages[index], fallbackLanguages[index + offset]] = [fallbackLanguages[index + offset], fallbackLanguages[index]];
+    updateLocale({ fallbackLanguages });
+  };
+
+  const addableFallbackLanguages = LANGUAGE_OPTIONS.filter(option =>
+    option.value !== settings.locale.language && !settings.locale.fallbackLanguages.includes(option.value));
+
+  // Empty input restores the default server
+  const commitApiBaseUrl = (provider: ApiProviderId, value: string) => {
+    const baseUrl = value.trim();
+    if (baseUrl === settings.apiBaseUrls[provider]) return;
+
+    if (baseUrl && !isValidApiBaseUrl(baseUrl)) {
+      toast({
+        title: 'Ungültige Adresse',
+        description: 'Bitte eine vollständige http(s)-Adresse angeben, z. B. http://localhost:8080.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSettings({ apiBaseUrls: { ...settings.apiBaseUrls, [provider]: baseUrl } });
+  };
+
+  const updateGeneration = (patch: Partial<GeminiGenerationSettings>) => {
+    setSettings({
+      gemini: {
+        ...settings.gemini,
+        generation: { ...settings.gemini.generation, [generationProfileId]: { ...generation, ...patch } },
+      },
+    });
+  };
+
+  const updatePreprocessing = (patch: Partial<PreprocessSettings>) => {
+    setSettings({ preprocessing: { ...settings.preprocessing, ...patch } });
+  };
+
+  const updateTiling = (patch: Partial<TilingSettings>) => {
+    setSettings({ tiling: { ...settings.tiling, ...patch } });
+  };
+
+  const clearCache = async () => {
+    try {
+      await clearOcrCache();
+      setOcrCacheEntries(0);
+      toast({ title: 'Cache geleert', description: 'Gespeicherte Erkennungsergebnisse wurden gelöscht' });
+    } catch (error) {
+      console.error('Error clearing OCR cache:', error);
+      toast({ title: 'Fehler', description: 'Cache konnte nicht geleert werden', variant: 'destructive' });
+    }
+  };
+
+  const clearApiCache = async () => {
+    try {
+      await clearHttpCache();
+      setHttpCacheStats({ entryCount: 0, approximateBytes: 0 });
+      toast({ title: 'Cache geleert', description: 'Gespeicherte Film- und Bewertungsdaten wurden gelöscht' });
+    } catch (error) {
+      console.error('Error clearing API cache:', error);
+      toast({ title: 'Fehler', description: 'Cache konnte nicht geleert werden', variant: 'destructive' });
+    }
+  };
+
+  const downloadOfflineModel = async () => {
+    try {
+      setIsLoadingModel(true);
+      await localOcrProvider.initialize();
+      setIsModelReady(true);
+      toast({ title: 'Offline-Modell bereit', description: 'Titel werden jetzt auch ohne Internet erkannt' });
+    } catch (error) {
+      console.error('Error loading offline OCR model:', error);
+      toast({ title: 'Fehler', description: 'Offline-Modell konnte nicht geladen werden', variant: 'destructive' });
+    } finally {
+      setIsLoadingModel(false);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="secondary" size="icon" className="pointer-events-auto rounded-full shadow-lg h-12 w-12" title="Einstellungen">
+          <Settings className="w-5 h-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Einstellungen</SheetTitle>
+          <SheetDescription>Einstellungen werden auf diesem Gerät gespeichert.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4 max-w-md mx-auto">
+          <div className="space-y-2">
+            <Label htmlFor="ocr-provider">Texterkennung</Label>
+            <Select
+              value={settings.ocrProvider}
+              onValueChange={(value) => setSettings({ ocrProvider: value as OcrProviderPreference })}
+            >
+              <SelectTrigger id="ocr-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OCR_PROVIDER_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="ocr-timeout" className="font-normal text-sm">Zeitlimit pro Anfrage</Label>
+              <Select
+                value={String(settings.ocrRequest.timeoutMs)}
+                onValueChange={(value) => updateOcrRequest({ timeoutMs: Number(value) })}
+              >
+                <SelectTrigger id="ocr-timeout" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEOUT_OPTIONS.map(timeoutMs => (
+                    <SelectItem key={timeoutMs} value={String(timeoutMs)}>{timeoutMs / 1000} s</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="ocr-retries" className="font-normal text-sm">Wiederholungen bei Fehlern</Label>
+              <Select
+                value={String(settings.ocrRequest.maxRetries)}
+                onValueChange={(value) => updateOcrRequest({ maxRetries: Number(value) })}
+              >
+                <SelectTrigger id="ocr-retries" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETRY_OPTIONS.map(retries => (
+                    <SelectItem key={retries} value={String(retries)}>{retries === 0 ? 'Keine' : retries}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Sprache & Region</Label>
+            <p className="text-xs text-muted-foreground">
+              Bestimmt Titel und Beschreibungen der Filmdaten sowie den Hinweis an die Texterkennung.
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="locale-language" className="font-normal text-sm">Sprache</Label>
+              <Select value={settings.locale.language} onValueChange={(language) => updateLocale({ language })}>
+                <SelectTrigger id="locale-language" className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="locale-region" className="font-normal text-sm">Region</Label>
+              <Select value={settings.locale.region} onValueChange={(region) => updateLocale({ region })}>
+                <SelectTrigger id="locale-region" className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REGION_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Ausweichsprachen werden der Reihe nach durchsucht, wenn in der Hauptsprache kein Treffer gefunden wird.
+            </p>
+            {settings.locale.fallbackLanguages.map((fallback, index) => (
+              <div key={fallback} className="flex items-center gap-2">
+                <span className="flex-1 text-sm truncate">{index + 1}. {getLanguageLabel(fallback)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => moveFallbackLanguage(index, -1)}
+                  disabled={index === 0}
+                  title="Nach oben"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => moveFallbackLanguage(index, 1)}
+                  disabled={index === settings.locale.fallbackLanguages.length - 1}
+                  title="Nach unten"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => updateLocale({ fallbackLanguages: settings.locale.fallbackLanguages.filter(language => language !== fallback) })}
+                  title="Entfernen"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {addableFallbackLanguages.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(language) => updateLocale({ fallbackLanguages: [...settings.locale.fallbackLanguages, language] })}
+              >
+                <SelectTrigger aria-label="Ausweichsprache hinzufügen" className="h-9">
+                  <SelectValue placeholder="Ausweichsprache hinzufügen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {addableFallbackLanguages.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Gemini-Modelle</Label>
+            <p className="text-xs text-muted-foreground">
+              Werden der Reihe nach versucht. Findet ein Modell keine oder auffällig wenige Titel, übernimmt das nächste.
+            </p>
+            {settings.gemini.models.map((modelName, index) => (
+              <div key={modelName} className="flex items-center gap-2">
+                <span className="flex-1 text-sm truncate">{index + 1}. {modelName}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => moveGeminiModel(index, -1)}
+                  disabled={index === 0}
+                  title="Nach oben"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => moveGeminiModel(index, 1)}
+                  disabled={index === settings.gemini.models.length - 1}
+                  title="Nach unten"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setGeminiModels(settings.gemini.models.filter(name => name !== modelName))}
+                  disabled={settings.gemini.models.length === 1}
+                  title="Entfernen"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Input
+                value={newModelName}
+                onChange={(event) => setNewModelName(event.target.value)}
+                onKeyDown={(event) => event.key === 'Enter' && addGeminiModel()}
+                placeholder="z. B. gemini-2.5-pro"
+                className="h-9"
+              />
+              <Button variant="outline" size="sm" onClick={addGeminiModel} disabled={!newModelName.trim()}>
+                <Plus className="w-4 h-4 mr-2" />
+                Hinzufügen
+              </Button>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="gemini-generation-profile" className="font-normal text-sm">Parameter für Scan-Profil</Label>
+              <Select
+                value={generationProfileId}
+                onValueChange={(value) => setGenerationProfileId(value as ScanProfileId)}
+              >
+                <SelectTrigger id="gemini-generation-profile" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(SCAN_PROFILES).map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="gemini-temperature" className="font-normal text-sm">Temperatur</Label>
+                <span className="text-xs text-muted-foreground">{generation.temperature.toFixed(2)}</span>
+              </div>
+              <Slider
+                id="gemini-temperature"
+                min={0}
+                max={1}
+                step={0.05}
+                value={[generation.temperature]}
+                onValueChange={([temperature]) => updateGeneration({ temperature })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="gemini-max-tokens" className="font-normal text-sm">Maximale Ausgabe-Tokens</Label>
+              <Select
+                value={String(generation.maxOutputTokens)}
+                onValueChange={(value) => updateGeneration({ maxOutputTokens: Number(value) })}
+              >
+                <SelectTrigger id="gemini-max-tokens" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAX_OUTPUT_TOKEN_OPTIONS.map(tokens => (
+                    <SelectItem key={tokens} value={String(tokens)}>{tokens}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Offline-Modell</Label>
+            <p className="text-xs text-muted-foreground">
+              Einmalig herunterladen, damit Scans auch ohne Empfang funktionieren. Bei automatischer Texterkennung
+              geschieht das nach dem Start im Hintergrund (nicht im Datensparmodus).
+            </p>
+            <Button variant="outline" size="sm" onClick={downloadOfflineModel} disabled={isLoadingModel || isModelReady}>
+              {isLoadingModel ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : isModelReady ? (
+                <Check className="w-4 h-4 mr-2" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              {isModelReady ? 'Offline-Modell geladen' : 'Offline-Modell laden'}
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Bildvorverarbeitung</Label>
+            {PREPROCESSING_TOGGLES.map(toggle => (
+              <div key={toggle.key} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`preprocess-${toggle.key}`} className="font-normal text-sm">{toggle.label}</Label>
+                <Switch
+                  id={`preprocess-${toggle.key}`}
+                  checked={settings.preprocessing[toggle.key]}
+                  disabled={toggle.key !== 'enabled' && toggle.key !== 'askForCrop' && !settings.preprocessing.enabled}
+                  onCheckedChange={(checked) => updatePreprocessing({ [toggle.key]: checked })}
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="preprocess-max-edge" className="font-normal text-sm">Maximale Bildkante</Label>
+              <Select
+                value={String(settings.preprocessing.maxEdge)}
+                onValueChange={(value) => updatePreprocessing({ maxEdge: Number(value) })}
+                disabled={!settings.preprocessing.enabled}
+              >
+                <SelectTrigger id="preprocess-max-edge" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAX_EDGE_OPTIONS.map(edge => (
+                    <SelectItem key={edge} value={String(edge)}>{edge} px</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Kachel-Erkennung</Label>
+            <p className="text-xs text-muted-foreground">
+              Teilt volle Regale oder Streaming-Übersichten in überlappende Ausschnitte, damit auch kleine Titel erkannt werden. Benötigt mehr Anfragen.
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="tiling-mode" className="font-normal text-sm">Modus</Label>
+              <Select
+                value={settings.tiling.mode}
+                onValueChange={(value) => updateTiling({ mode: value as TilingMode })}
+              >
+                <SelectTrigger id="tiling-mode" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TILING_MODE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="tiling-grid-size" className="font-normal text-sm">Kacheln entlang der langen Seite</Label>
+              <Select
+                value={String(settings.tiling.gridSize)}
+                onValueChange={(value) => updateTiling({ gridSize: Number(value) })}
+                disabled={settings.tiling.mode === 'off'}
+              >
+                <SelectTrigger id="tiling-grid-size" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GRID_SIZE_OPTIONS.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Erkennungs-Cache</Label>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="ocr-cache-enabled" className="font-normal text-sm">
+                Ergebnisse für identische Bilder wiederverwenden
+              </Label>
+              <Switch
+                id="ocr-cache-enabled"
+                checked={settings.cacheOcrResults}
+                onCheckedChange={(checked) => setSettings({ cacheOcrResults: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-xs text-muted-foreground">
+                {ocrCacheEntries === null ? 'Einträge werden gezählt...' : `${ocrCacheEntries} gespeicherte Ergebnisse`}
+              </span>
+              <Button variant="outline" size="sm" onClick={clearCache} disabled={!ocrCacheEntries}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Cache leeren
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>API-Server</Label>
+            <p className="text-xs text-muted-foreground">
+              Für einen Proxy oder einen lokalen Testserver. Leer lassen für die offiziellen Server.
+            </p>
+            {API_BASE_URL_FIELDS.map(({ provider, label }) => (
+              <div key={provider} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`api-base-url-${provider}`} className="font-normal text-sm">{label}</Label>
+                <Input
+                  key={settings.apiBaseUrls[provider]}
+                  id={`api-base-url-${provider}`}
+                  defaultValue={settings.apiBaseUrls[provider]}
+                  onBlur={(event) => commitApiBaseUrl(provider, event.target.value)}
+                  onKeyDown={(event) => event.key === 'Enter' && commitApiBaseUrl(provider, event.currentTarget.value)}
+                  placeholder={DEFAULT_API_BASE_URLS[provider]}
+                  inputMode="url"
+                  className="h-9 w-56 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Film-Daten-Cache</Label>
+            <p className="text-xs text-muted-foreground">
+              Antworten von TMDB und OMDb werden gespeichert, damit bekannte Titel nach einem Neustart ohne erneute Anfragen erscheinen.
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-xs text-muted-foreground">
+                {httpCacheStats === null
+                  ? 'Einträge werden gezählt...'
+                  : httpCacheStats.entryCount === 0
+                    ? 'Keine gespeicherten Antworten'
+                    : `${httpCacheStats.entryCount} Antworten, ca. ${formatBytes(httpCacheStats.approximateBytes)}`}
+              </span>
+              <Button variant="outline" size="sm" onClick={clearApiCache} disabled={!httpCacheStats?.entryCount}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Cache leeren
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Manuelle Zuordnungen</Label>
+            <p className="text-xs text-muted-foreground">
+              Korrigierte Treffer gelten für alle künftigen Scans und lassen sich als Datei mit anderen teilen.
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-xs text-muted-foreground">
+                {overrideCount === 0 ? 'Keine Korrekturen' : `${overrideCount} Korrektur${overrideCount !== 1 ? 'en' : ''}`}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setIsOverridesOpen(true)}>
+                <ListChecks className="w-4 h-4 mr-2" />
+                Verwalten
+              </Button>
+            </div>
+          </div>
+        </div>
+        <MatchOverridesDialog open={isOverridesOpen} onOpenChange={setIsOverridesOpen} />
+      </SheetContent>
+    </Sheet>
+  );
+};
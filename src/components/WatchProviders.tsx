@@ -0,0 +1,111 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, ShoppingCart, Tv } from 'lucide-react';
+import { useWatchProviders } from '@/hooks/useWatchProviders';
+import { getProviderLogoUrl } from '@/services/tmdbService';
+import { getRegionLabel } from '@/lib/locale';
+import type { WatchOfferType, WatchProvider } from '@/types/tmdb';
+
+interface WatchProvidersProps {
+  tmdbId: number | null;
+  mediaType: 'movie' | 'tv' | null;
+  title: string;
+}
+
+const OFFER_LABELS: Record<WatchOfferType, string> = {
+  flatrate: 'Im Abo',
+  free: 'Kostenlos',
+  ads: 'Kostenlos mit Werbung',
+  rent: 'Leihen',
+  buy: 'Kaufen',
+};
+
+// Offers that need no extra payment are shown in the row, rent and buy only in the details
+const INCLUDED_OFFER_TYPES: WatchOfferType[] = ['flatrate', 'free', 'ads'];
+
+const MAX_ROW_LOGOS = 3;
+
+const ProviderLogo = ({ provider, className }: { provider: WatchProvider; className: string }) =>
+  provider.logoPath ? (
+    <img src={getProviderLogoUrl(provider.logoPath)} alt={provider.name} title={provider.name} loading="lazy" className={`rounded-sm bg-muted ${className}`} />
+  ) : (
+    <div title={provider.name} className={`flex items-center justify-center rounded-sm bg-muted ${className}`}>
+      <Tv className="w-3 h-3 text-muted-foreground" />
+    </div>
+  );
+
+// Provider logos of a resolved title; opens the full breakdown of streaming, rental and purchase offers
+export const WatchProviders = ({ tmdbId, mediaType, title }: WatchProvidersProps) => {
+  const { data: availability } = useWatchProviders(tmdbId, mediaType);
+
+  if (!availability) return null;
+
+  const offerTypes = (Object.keys(OFFER_LABELS) as WatchOfferType[]).filter(type => availability.offers[type]);
+  if (offerTypes.length === 0) return null;
+
+  // A service can appear in several included categories (e.g. abo and with ads)
+  const includedProviders = [
+    ...new Map(
+      INCLUDED_OFFER_TYPES.flatMap(type => availability.offers[type] ?? []).map(provider => [provider.id, provider])
+    ).values(),
+  ];
+  const regionLabel = getRegionLabel(availability.region);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-1 gap-0.5 hover:bg-primary/10"
+          title={includedProviders.length > 0
+            ? `Verfügbar bei ${includedProviders.map(provider => provider.name).join(', ')}`
+            : `Nur zum Leihen oder Kaufen (${regionLabel})`}
+        >
+          {includedProviders.length > 0 ? (
+            <>
+              {includedProviders.slice(0, MAX_ROW_LOGOS).map(provider => (
+                <ProviderLogo key={provider.id} provider={provider} className="h-5 w-5" />
+              ))}
+              {includedProviders.length > MAX_ROW_LOGOS && (
+                <span className="text-xs text-muted-foreground">+{includedProviders.length - MAX_ROW_LOGOS}</span>
+              )}
+            </>
+          ) : (
+            <ShoppingCart className="w-3 h-3" />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2">
+        <p className="mb-2 truncate text-sm font-medium">{title}</p>
+        <p className="mb-2 text-xs text-muted-foreground">Angebote in {regionLabel}</p>
+        <div className="space-y-2">
+          {offerTypes.map(type => (
+            <div key={type}>
+              <p className="mb-1 text-xs text-muted-foreground">{OFFER_LABELS[type]}</p>
+              <div className="flex flex-wrap gap-1">
+                {availability.offers[type]!.map(provider => (
+                  <ProviderLogo key={provider.id} provider={provider} className="h-8 w-8" />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mt-2 flex items-center justify-between gap-2 border-t pt-2">
+          <span className="text-xs text-muted-foreground">Daten von JustWatch</span>
+          {availability.link && (
+            <a
+              href={availability.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              Alle Angebote
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,84 @@
+import { useCallback, useRef, useState } from 'react';
+import { extractTextFromImage } from '@/services/ocrService';
+import { isCancelledError } from '@/services/ocrErrors';
+import type { ImportItem, ImportSource } from '@/types/import';
+import type { OcrDetection, ScanResultMeta } from '@/types/ocr';
+
+interface UseBatchImportOptions {
+  onResult: (imageUrl: string, detections: OcrDetection[], meta: ScanResultMeta) => OcrDetection[];
+}
+
+// Queue imported images through the OCR pipeline one at a time with per-image progress
+export const useBatchImport = ({ onResult }: UseBatchImportOptions) => {
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const isImportingRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Always hand results to the latest callback
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const updateItem = (id: string, patch: Partial<ImportItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const importImages = useCallback(async (sources: ImportSource[]) => {
+    if (sources.length === 0 || isImportingRef.current) return;
+
+    const queue = sources.map(source => ({ source, id: crypto.randomUUID() }));
+    setItems(queue.map(({ source, id }) => ({ id, name: source.name, status: 'queued' })));
+    isImportingRef.current = true;
+    setIsImporting(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let totalTitles = 0;
+    let failedCount = 0;
+
+    // Sequential on purpose: parallel full-image requests quickly exhaust the Gemini quota
+    for (const { source, id } of queue) {
+      if (controller.signal.aborted) {
+        failedCount++;
+        updateItem(id, { status: 'error', error: 'Abgebrochen' });
+        continue;
+      }
+
+      updateItem(id, { status: 'processing' });
+
+      try {
+        const imageUrl = await source.readDataUrl();
+        const { detections, imageUrl: processedImageUrl, model } = await extractTextFromImage(imageUrl, {
+          signal: controller.signal,
+        });
+        const addedTitles = onResultRef.current(processedImageUrl, detections, { model });
+
+        totalTitles += addedTitles.length;
+        updateItem(id, { status: 'done', titleCount: addedTitles.length });
+      } catch (error) {
+        console.error(`Import of "${source.name}" failed:`, error);
+        failedCount++;
+        updateItem(id, {
+          status: 'error',
+          error: isCancelledError(error)
+            ? 'Abgebrochen'
+            : error instanceof Error ? error.message : 'Bild konnte nicht verarbeitet werden',
+        });
+      }
+    }
+
+    console.log(`📥 Batch import finished: ${queue.length} images, ${totalTitles} titles, ${failedCount} failed`);
+    isImportingRef.current = false;
+    abortControllerRef.current = null;
+    setIsImporting(false);
+
+    return { totalTitles, failedCount, cancelled: controller.signal.aborted };
+  }, []);
+
+  // Stop the running request and skip all queued images
+  const cancel = useCallback(() => abortControllerRef.current?.abort(), []);
+
+  const clearItems = useCallback(() => setItems([]), []);
+
+  return { items, isImporting, importImages, cancel, clearItems };
+};
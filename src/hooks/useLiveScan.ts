@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { extractTextFromImage } from '@/services/ocrService';
+import { isCancelledError } from '@/services/ocrErrors';
+import { captureVideoFrame, computeFrameSignature, frameDifference, type FrameSignature } from '@/lib/frameDiff';
+import { findMatchingTitle } from '@/lib/titleMatching';
+import type { OcrDetection, ScanResultMeta } from '@/types/ocr';
+
+// How often frames are sampled for change detection
+const SAMPLE_INTERVAL_MS = 500;
+// Minimum time between two OCR requests (protects the Gemini quota)
+const MIN_REQUEST_INTERVAL_MS = 4000;
+// Stop automatically when no new title was found for this long
+const INACTIVITY_TIMEOUT_MS = 30000;
+// Frames that differ more than this from the previous sample are considered blurry/moving
+const MOTION_THRESHOLD = 0.04;
+// A frame must differ this much from the last OCR'd frame to warrant a new request
+const SCENE_CHANGE_THRESHOLD = 0.1;
+
+export type LiveScanStopReason = 'user' | 'inactivity' | 'error';
+
+export interface LiveScanStats {
+  framesSent: number;
+  newTitles: number;
+}
+
+interface UseLiveScanOptions {
+  knownTitles: string[];
+  onDetections: (imageUrl: string, detections: OcrDetection[], meta: ScanResultMeta) => void;
+}
+
+// Continuous scanning from the camera stream with throttled, change-triggered OCR requests
+export const useLiveScan = ({ knownTitles, onDetections }: UseLiveScanOptions) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const intervalRef = useRef<number | null>(null);
+  const previousSignatureRef = useRef<FrameSignature | null>(null);
+  const lastSentSignatureRef = useRef<FrameSignature | null>(null);
+  const lastRequestAtRef = useRef(0);
+  const lastNewTitleAtRef = useRef(0);
+  const isRequestInFlightRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Bumped by every start and stop, so a start still waiting for the camera can tell it was cancelled
+  const sessionRef = useRef(0);
+
+  // Always read the latest titles and callback inside the sampling loop
+  const knownTitlesRef = useRef(knownTitles);
+  const onDetectionsRef = useRef(onDetections);
+  knownTitlesRef.current = knownTitles;
+  onDetectionsRef.current = onDetections;
+
+  const [isActive, setIsActive] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [stats, setStats] = useState<LiveScanStats>({ framesSent: 0, newTitles: 0 });
+  const [stopReason, setStopReason] = useState<LiveScanStopReason | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = useCallback((reason: LiveScanStopReason = 'user') => {
+    sessionRef.current++;
+    // Don't spend quota on a frame nobody is waiting for anymore
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    if (intervalRef.current !== null) {
+      window.clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+
+    setIsActive(false);
+    setStopReason(reason);
+  }, []);
+
+  const processFrame = useCallback(async (video: HTMLVideoElement, signature: FrameSignature) => {
+    const imageUrl = captureVideoFrame(video);
+    if (!imageUrl) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    isRequestInFlightRef.current = true;
+    lastRequestAtRef.current = Date.now();
+    lastSentSignatureRef.current = signature;
+    setIsProcessing(true);
+    setStats(prev => ({ ...prev, framesSent: prev.framesSent + 1 }));
+
+    try {
+      const { detections, imageUrl: processedImageUrl, model } = await extractTextFromImage(imageUrl, {
+        allowTiling: false,
+        // Most frames show nothing new; a second request on the stronger model would double the quota
+        escalateOnFewTitles: false,
+        signal: controller.signal,
+      });
+
+      // Fuzzy de-duplication against everything already in the list
+      const seenTitles = [...knownTitlesRef.current];
+      const newDetections = detections.filter(detection => {
+        if (findMatchingTitle(detection.title, seenTitles)) return false;
+        seenTitles.push(detection.title);
+        return true;
+      });
+
+      if (newDetections.length > 0) {
+        console.log('📹 Live scan found new titles:', newDetections.map(d => d.title));
+        lastNewTitleAtRef.current = Date.now();
+        setStats(prev => ({ ...prev, newTitles: prev.newTitles + newDetections.length }));
+        onDetectionsRef.current(processedImageUrl, newDetections, { model });
+      }
+    } catch (err) {
+      if (isCancelledError(err)) return;
+      console.error('Live scan OCR failed:', err);
+      setError(err instanceof Error ? err.message : 'Texterkennung fehlgeschlagen');
+      stop('error');
+    } finally {
+      isRequestInFlightRef.current = false;
+      setIsProcessing(false);
+    }
+  }, [stop]);
+
+  const sampleFrame = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const now = Date.now();
+    if (now - lastNewTitleAtRef.current > INACTIVITY_TIMEOUT_MS) {
+      console.log('📹 Live scan stopped after inactivity');
+      stop('inactivity');
+      return;
+    }
+
+    const signature = computeFrameSignature(video);
+    if (!signature) return;
+
+    const motion = previousSignatureRef.current
+      ? frameDifference(signature, previousSignatureRef.current)
+      : 1;
+    previousSignatureRef.current = signature;
+
+    if (isRequestInFlightRef.current || now - lastRequestAtRef.current < MIN_REQUEST_INTERVAL_MS) return;
+    // Wait until the camera holds still to avoid blurry frames
+    if (motion > MOTION_THRESHOLD) return;
+    // Skip if the view hasn't changed enough since the last request
+    if (lastSentSignatureRef.current && frameDifference(signature, lastSentSignatureRef.current) < SCENE_CHANGE_THRESHOLD) return;
+
+    void processFrame(video, signature);
+  }, [processFrame, stop]);
+
+  const start = useCallback(async () => {
+    // A second start replaces the running session instead of leaking its camera and interval
+    if (streamRef.current || intervalRef.current !== null) stop('user');
+    const session = ++sessionRef.current;
+    const isCancelled = () => session !== sessionRef.current;
+
+    setError(null);
+    setStopReason(null);
+    setStats({ framesSent: 0, newTitles: 0 });
+    previousSignatureRef.current = null;
+    lastSentSignatureRef.current = null;
+    lastRequestAtRef.current = 0;
+    lastNewTitleAtRef.current = Date.now();
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      });
+      // Stopped or unmounted while the permission prompt was open
+      if (isCancelled()) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      // stop() has already released the stream in this case
+      if (isCancelled()) return;
+
+      if (intervalRef.current !== null) window.clearInterval(intervalRef.current);
+      intervalRef.current = window.setInterval(sampleFrame, SAMPLE_INTERVAL_MS);
+      setIsActive(true);
+    } catch (err) {
+      if (isCancelled()) return;
+      console.error('Failed to start live scan:', err);
+      setError('Kamera konnte nicht gestartet werden');
+      stop('error');
+    }
+  }, [sampleFrame, stop]);
+
+  // Release the camera when the component using the hook unmounts
+  useEffect(() => () => stop('user'), [stop]);
+
+  return { videoRef, isActive, isProcessing, stats, stopReason, error, start, stop };
+};
@@ -0,0 +1,31 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  getMatchOverrides,
+  removeMatchOverride,
+  setMatchOverride,
+  subscribeToMatchOverrides,
+} from '@/services/matchOverrideService';
+import type { MatchOverride } from '@/types/matchOverride';
+import type { MatchCandidate } from '@/types/tmdb';
+
+// Hook for reading and changing the persisted manual match corrections
+export const useMatchOverrides = () => {
+  const overrides = useSyncExternalStore(subscribeToMatchOverrides, getMatchOverrides);
+
+  // Bind an OCR title to a candidate from the picker
+  const overrideWithCandidate = useCallback((ocrTitle: string, candidate: MatchCandidate, imdbId: string | null = null): MatchOverride =>
+    setMatchOverride(ocrTitle, {
+      tmdbId: candidate.tmdbId,
+      mediaType: candidate.mediaType,
+      imdbId,
+      title: candidate.title,
+      year: candidate.year,
+      posterPath: candidate.posterPath,
+    }), []);
+
+  const removeOverride = useCallback((key: string) => {
+    removeMatchOverride(key);
+  }, []);
+
+  return { overrides, overrideWithCandidate, removeOverride };
+};
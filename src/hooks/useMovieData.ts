@@ -0,0 +1,64 @@
+import { useQueries } from '@tanstack/react-query';
+import { fetchMovieData, type MovieDataResponse } from '@/services/movieService';
+import { getOverrideKey } from '@/services/matchOverrideService';
+import { useMatchOverrides } from '@/hooks/useMatchOverrides';
+import { useSettings } from '@/hooks/useSettings';
+import type { OcrDetection } from '@/types/ocr';
+import type { MatchOverride } from '@/types/matchOverride';
+import type { LocaleSettings } from '@/types/settings';
+
+// Only the matching hints belong in the key, so the same title shares one cache entry across photos.
+// Locale and manual override are part of the key: changing either refetches every view of the title.
+export const movieDataQueryKey = (detection: OcrDetection, locale: LocaleSettings, override?: MatchOverride) => [
+  'movieData',
+  detection.title,
+  locale,
+  override?.updatedAt ?? null,
+  detection.year ?? null,
+  detection.mediaType ?? null,
+  detection.season ?? null,
+  detection.originalTitle ?? null,
+  detection.profileId ?? null,
+  detection.knownMatch?.imdbId ?? detection.knownMatch?.tmdbId ?? null,
+];
+
+// Hook for TMDB + OMDb data of all scanned titles, looked up by OCR title
+export const useMovieDataForTitles = (titles: OcrDetection[]) => {
+  const { overrides } = useMatchOverrides();
+  const { settings: { locale } } = useSettings();
+
+  // A single useQueries call to fetch all data concurrently for each title
+  const movieQueries = useQueries({
+    queries: titles.map(detection => {
+      return {
+        queryKey: movieDataQueryKey(detection, locale, overrides[getOverrideKey(detection.title)]),
+        queryFn: () => fetchMovieData(detection),
+        // Titles held back by the OCR output guard are only looked up once the user confirms them
+        enabled: !detection.needsReview,
+        // Keep showing the previous match while a changed override is resolved
+        placeholderData: (previous: MovieDataResponse | undefined) => previous,
+        staleTime: 1000 * 60 * 60, // 1 hour
+        retry: 2,
+      };
+    }),
+  });
+
+  // Aggregate loading and error states from all queries
+  const isError = movieQueries.some(q => q.isError);
+
+  const allMovieData = movieQueries
+    .filter(q => q.isSuccess && q.data)
+    .map(q => q.data!);
+
+  const movieLookup: Record<string, MovieDataResponse> = Object.fromEntries(
+    allMovieData.map(data => [data.ocrTitle, data])
+  );
+
+  // Queries are in the same order as the titles
+  const loadingTitles = new Set(
+    titles.filter((_, index) => movieQueries[index]?.isLoading).map(detection => detection.title)
+  );
+
+  return { allMovieData, movieLookup, loadingTitles, isError };
+};
+
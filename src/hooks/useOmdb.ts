@@ -2,6 +2,7 @@ import { useQuery, useQueries } from '@tanstack/react-query';
 import { getImdbRatingByImdbId, getImdbRatingsForIds } from '@/services/omdbService';
 import type { MovieRating } from '@/types/omdb';
 import type { MovieWithImdbId } from '@/types/tmdb';
+import { useSettings } from '@/hooks/useSettings';
 
 // Hook for single IMDb rating lookup
 export const useImdbRating = (
@@ -38,13 +39,19 @@ export const useImdbRatings = (
 export const useImdbRatingFromTitle = (
   title: string | undefined
 ) => {
+  const { settings: { locale } } = useSettings();
+
   // First query: Get IMDb ID from title (using existing TMDB hook)
   const { data: imdbData, isLoading: isLoadingImdb, isError: hasImdbError } = useQuery({
-    queryKey: ['tmdb', 'imdbId', title],
+    queryKey: ['tmdb', 'imdbId', title, locale],
     queryFn: async () => {
       if (!title) return null;
       const { getImdbIdForTitle } = await import('@/services/tmdbService');
-      return getImdbIdForTitle(title, { language: 'de-DE', region: 'DE' });
+      return getImdbIdForTitle(title, {
+        language: locale.language,
+        fallbackLanguages: locale.fallbackLanguages,
+        region: locale.region,
+      });
     },
     enabled: !!title?.trim(),
     staleTime: 1000 * 60 * 60, // 1 hour
@@ -0,0 +1,14 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getSettings, subscribeToSettings, updateSettings } from '@/services/settingsService';
+import type { AppSettings } from '@/types/settings';
+
+// Hook for reading and updating persisted app settings
+export const useSettings = () => {
+  const settings = useSyncExternalStore(subscribeToSettings, getSettings);
+
+  const setSettings = useCallback((patch: Partial<AppSettings>) => {
+    updateSettings(patch);
+  }, []);
+
+  return { settings, setSettings };
+};
@@ -1,14 +1,19 @@
 import { useQuery } from '@tanstack/react-query';
 import { getImdbIdForTitle, getImdbIdsForTitles } from '@/services/tmdbService';
+import { useSettings } from '@/hooks/useSettings';
 import type { MovieWithImdbId, TMDBSearchOptions } from '@/types/tmdb';
+import type { OcrDetection } from '@/types/ocr';
 
 // Hook for single title lookup
 export const useImdbIdForTitle = (
   title: string | undefined,
   options: TMDBSearchOptions = {}
 ) => {
+  // Options without a language use the locale settings
+  const { settings: { locale } } = useSettings();
+
   return useQuery({
-    queryKey: ['tmdb', 'imdbId', title, options],
+    queryKey: ['tmdb', 'imdbId', title, options, locale],
     queryFn: () => title ? getImdbIdForTitle(title, options) : null,
     enabled: !!title?.trim(),
     staleTime: 1000 * 60 * 60, // 1 hour
@@ -24,13 +29,15 @@ export const useImdbIdForTitle = (
 
 // Hook for multiple titles lookup
 export const useImdbIdsForTitles = (
-  titles: string[],
+  detections: OcrDetection[],
   options: TMDBSearchOptions = {}
 ) => {
+  const { settings: { locale } } = useSettings();
+
   return useQuery({
-    queryKey: ['tmdb', 'imdbIds', titles, options],
-    queryFn: () => getImdbIdsForTitles(titles, options),
-    enabled: titles.length > 0,
+    queryKey: ['tmdb', 'imdbIds', detections, options, locale],
+    queryFn: () => getImdbIdsForTitles(detections, options),
+    enabled: detections.length > 0,
     staleTime: 1000 * 60 * 30, // 30 minutes
   });
 };
@@ -38,8 +45,11 @@ export const useImdbIdsForTitles = (
 // Hook for movie details
 export const useMovieDetails = (
   tmdbId: number | undefined,
-  language = 'de-DE'
+  language?: string
 ) => {
+  const { settings: { locale } } = useSettings();
+  language ??= locale.language;
+
   return useQuery({
     queryKey: ['tmdb', 'movie', tmdbId, language],
     queryFn: async () => {
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { getWatchProviders } from '@/services/tmdbService';
+import { useSettings } from '@/hooks/useSettings';
+
+// Hook for the streaming offers of a resolved title in the region from the settings
+export const useWatchProviders = (tmdbId: number | null, mediaType: 'movie' | 'tv' | null) => {
+  const { settings: { locale } } = useSettings();
+
+  return useQuery({
+    queryKey: ['tmdb', 'watchProviders', mediaType, tmdbId, locale.region],
+    queryFn: () => getWatchProviders(mediaType!, tmdbId!, locale.region),
+    enabled: tmdbId !== null && mediaType !== null,
+    staleTime: 1000 * 60 * 60 * 6, // 6 hours, the persistent cache keeps them for a day
+    retry: 1,
+  });
+};
@@ -0,0 +1,106 @@
+// Helpers for cancellable async work: timeouts, delays and bounded retries
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Aborted', 'AbortError');
+  }
+}
+
+// Resolve after `ms`, or reject early when the signal aborts
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class TimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs} ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Run a task with its own signal that aborts on timeout or when the outer signal aborts.
+// Rejects with TimeoutError on timeout and with an AbortError when cancelled from outside.
+export async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  outerSignal?: AbortSignal
+): Promise<T> {
+  throwIfAborted(outerSignal);
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onOuterAbort = () => controller.abort();
+  outerSignal?.addEventListener('abort', onOuterAbort, { once: true });
+
+  // Not every task honours its signal, so race it against the abort
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => {
+      reject(timedOut ? new TimeoutError(timeoutMs) : new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), aborted]);
+  } catch (error) {
+    // Tasks that honour the signal reject with their own abort error; report the actual reason
+    if (timedOut) throw new TimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    window.clearTimeout(timer);
+    outerSignal?.removeEventListener('abort', onOuterAbort);
+  }
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  shouldRetry: (error: unknown) => boolean;
+  // Lets an error dictate the wait (e.g. Retry-After); falls back to exponential backoff
+  getDelayMs?: (error: unknown, attempt: number) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+// Retry a task with capped exponential backoff and jitter
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.maxRetries || isAbortError(error) || !options.shouldRetry(error)) {
+        throw error;
+      }
+
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      const delayMs = Math.min(
+        options.maxDelayMs,
+        options.getDelayMs?.(error, attempt) ?? backoff * (0.5 + Math.random() * 0.5)
+      );
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await abortableDelay(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+// Cheap scene-change detection on downscaled grayscale video frames
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+export type FrameSignature = Uint8ClampedArray;
+
+let signatureCanvas: HTMLCanvasElement | null = null;
+
+// Reduce the current video frame to a tiny grayscale thumbnail
+export function computeFrameSignature(video: HTMLVideoElement): FrameSignature | null {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return null;
+
+  signatureCanvas ??= document.createElement('canvas');
+  signatureCanvas.width = SIGNATURE_WIDTH;
+  signatureCanvas.height = SIGNATURE_HEIGHT;
+
+  const context = signatureCanvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = context.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const signature = new Uint8ClampedArray(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    const offset = i * 4;
+    signature[i] = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  }
+  return signature;
+}
+
+// Mean absolute difference between two signatures (0 = identical, 1 = inverted)
+export function frameDifference(a: FrameSignature, b: FrameSignature): number {
+  if (a.length !== b.length) return 1;
+
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / (a.length * 255);
+}
+
+// Grab the current video frame as a JPEG data URL, limited to a maximum edge length
+export function captureVideoFrame(video: HTMLVideoElement, maxEdge = 1280, quality = 0.85): string | null {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return null;
+
+  const scale = Math.min(1, maxEdge / Math.max(videoWidth, videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(videoWidth * scale);
+  canvas.height = Math.round(videoHeight * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
@@ -0,0 +1,49 @@
+// Incremental parser for a streamed JSON array of objects: yields each top-level object as soon as it is complete
+
+export interface JsonArrayStreamParser {
+  push: (chunk: string) => unknown[];
+}
+
+export function createJsonArrayStreamParser(): JsonArrayStreamParser {
+  let depth = 0; // 1 = inside the outer array, 2+ = inside an element
+  let inString = false;
+  let isEscaped = false;
+  let objectBuffer = '';
+
+  const push = (chunk: string): unknown[] => {
+    const completed: unknown[] = [];
+
+    for (const char of chunk) {
+      if (depth >= 2) objectBuffer += char;
+
+      if (inString) {
+        if (isEscaped) isEscaped = false;
+        else if (char === '\\') isEscaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+        // Start of a new top-level element
+        if (depth === 2) objectBuffer = char;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 1 && objectBuffer) {
+          try {
+            completed.push(JSON.parse(objectBuffer));
+          } catch (error) {
+            console.warn('Skipping malformed streamed JSON element:', error);
+          }
+          objectBuffer = '';
+        }
+      }
+    }
+
+    return completed;
+  };
+
+  return { push };
+}
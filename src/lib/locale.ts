@@ -0,0 +1,49 @@
+import type { LocaleSettings } from '@/types/settings';
+
+// Languages and regions offered in the settings; TMDB accepts any ISO 639-1 / ISO 3166-1 pair
+
+export const LANGUAGE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'de-AT', label: 'Deutsch (Österreich)' },
+  { value: 'de-CH', label: 'Deutsch (Schweiz)' },
+  { value: 'en-US', label: 'Englisch (USA)' },
+  { value: 'en-GB', label: 'Englisch (Großbritannien)' },
+  { value: 'fr-FR', label: 'Französisch' },
+  { value: 'es-ES', label: 'Spanisch' },
+  { value: 'it-IT', label: 'Italienisch' },
+  { value: 'nl-NL', label: 'Niederländisch' },
+  { value: 'pl-PL', label: 'Polnisch' },
+  { value: 'pt-BR', label: 'Portugiesisch (Brasilien)' },
+  { value: 'sv-SE', label: 'Schwedisch' },
+  { value: 'da-DK', label: 'Dänisch' },
+  { value: 'tr-TR', label: 'Türkisch' },
+  { value: 'ja-JP', label: 'Japanisch' },
+];
+
+export const REGION_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'DE', label: 'Deutschland' },
+  { value: 'AT', label: 'Österreich' },
+  { value: 'CH', label: 'Schweiz' },
+  { value: 'US', label: 'USA' },
+  { value: 'GB', label: 'Großbritannien' },
+  { value: 'FR', label: 'Frankreich' },
+  { value: 'ES', label: 'Spanien' },
+  { value: 'IT', label: 'Italien' },
+  { value: 'NL', label: 'Niederlande' },
+  { value: 'PL', label: 'Polen' },
+  { value: 'BR', label: 'Brasilien' },
+  { value: 'SE', label: 'Schweden' },
+  { value: 'DK', label: 'Dänemark' },
+  { value: 'TR', label: 'Türkei' },
+  { value: 'JP', label: 'Japan' },
+];
+
+export const getLanguageLabel = (language: string) =>
+  LANGUAGE_OPTIONS.find(option => option.value === language)?.label ?? language;
+
+export const getRegionLabel = (region: string) =>
+  REGION_OPTIONS.find(option => option.value === region)?.label ?? region;
+
+// Fallback languages to search after the primary one, without duplicates
+export const getFallbackLanguages = ({ language, fallbackLanguages }: LocaleSettings): string[] =>
+  [...new Set(fallbackLanguages)].filter(fallback => fallback !== language);
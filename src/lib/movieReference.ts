@@ -0,0 +1,31 @@
+import type { MovieReference } from '@/types/tmdb';
+
+// Parsing of exactly known entries: IMDb ids, IMDb and TMDB links and bare TMDB ids
+
+const IMDB_ID_PATTERN = /^tt\d{7,}$/;
+// imdb.com/title/tt0095016/, m.imdb.com/de/title/tt0095016?ref_=…
+const IMDB_URL_PATTERN = /imdb\.com\/(?:[a-z]{2}\/)?title\/(tt\d{7,})/i;
+// themoviedb.org/movie/562-die-hard, themoviedb.org/tv/1399?language=de
+const TMDB_URL_PATTERN = /themoviedb\.org\/(movie|tv)\/(\d+)/i;
+// "movie/562", "tv 1399"
+const TYPED_TMDB_ID_PATTERN = /^(movie|tv)[/:\s]+(\d+)$/i;
+
+export const isImdbId = (value: string) => IMDB_ID_PATTERN.test(value);
+
+export function parseMovieReference(input: string): MovieReference | null {
+  const text = input.trim();
+
+  if (isImdbId(text.toLowerCase())) return { source: 'imdb', imdbId: text.toLowerCase() };
+
+  const imdbUrl = text.match(IMDB_URL_PATTERN);
+  if (imdbUrl) return { source: 'imdb', imdbId: imdbUrl[1].toLowerCase() };
+
+  const tmdbMatch = text.match(TMDB_URL_PATTERN) ?? text.match(TYPED_TMDB_ID_PATTERN);
+  if (tmdbMatch) {
+    return { source: 'tmdb', tmdbId: parseInt(tmdbMatch[2]), mediaType: tmdbMatch[1].toLowerCase() as 'movie' | 'tv' };
+  }
+
+  if (/^\d+$/.test(text)) return { source: 'tmdb', tmdbId: parseInt(text) };
+
+  return null;
+}
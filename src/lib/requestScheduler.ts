@@ -0,0 +1,143 @@
+import type { ApiProviderId, RateLimitConfig } from '@/types/api';
+import { withRetry } from '@/lib/abortable';
+
+// Central request scheduling for all API clients: token bucket per provider, bounded concurrency
+// and capped exponential backoff on rate limit answers
+
+const RATE_LIMITS: Record<ApiProviderId, RateLimitConfig> = {
+  tmdb: { capacity: 20, refillPerSecond: 20, maxConcurrent: 6 },
+  omdb: { capacity: 5, refillPerSecond: 5, maxConcurrent: 3 },
+  // Free tier allows around 15-30 requests per minute; tiles and live scan share the budget
+  gemini: { capacity: 4, refillPerSecond: 0.5, maxConcurrent: 2 },
+};
+
+const RATE_LIMIT_MAX_RETRIES = 3;
+const RATE_LIMIT_BASE_DELAY_MS = 1000;
+const RATE_LIMIT_MAX_DELAY_MS = 30000;
+
+// A 429 answer; retryAfterMs comes from the Retry-After header if present
+export class RateLimitError extends Error {
+  constructor(readonly provider: ApiProviderId, readonly retryAfterMs?: number) {
+    super(`${provider} rate limit exceeded`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface RequestScheduler {
+  // Run a task once a token and a concurrency slot are free; aborting removes a queued task
+  schedule: <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  // Hold back all queued requests, e.g. after the provider answered with 429
+  pauseFor: (ms: number) => void;
+}
+
+export function createRequestScheduler({ capacity, refillPerSecond, maxConcurrent }: RateLimitConfig): RequestScheduler {
+  const queue: Array<() => void> = [];
+  let tokens = capacity;
+  let lastRefillAt = Date.now();
+  let pausedUntil = 0;
+  let active = 0;
+  let timer: number | null = null;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefillAt) / 1000) * refillPerSecond);
+    lastRefillAt = now;
+  };
+
+  const pump = () => {
+    refill();
+    while (queue.length > 0 && active < maxConcurrent && tokens >= 1 && Date.now() >= pausedUntil) {
+      tokens -= 1;
+      active++;
+      queue.shift()!();
+    }
+
+    // Blocked by the bucket or a pause: wake up when the next request may start (finished requests pump themselves)
+    if (queue.length > 0 && active < maxConcurrent && timer === null) {
+      const tokenWaitMs = tokens >= 1 ? 0 : ((1 - tokens) / refillPerSecond) * 1000;
+      const waitMs = Math.max(tokenWaitMs, pausedUntil - Date.now(), 0);
+      timer = window.setTimeout(() => {
+        timer = null;
+        pump();
+      }, waitMs);
+    }
+  };
+
+  return {
+    schedule: (task, signal) => new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            pump();
+          });
+      };
+      const onAbort = () => {
+        const index = queue.indexOf(start);
+        if (index < 0) return;
+        queue.splice(index, 1);
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(start);
+      pump();
+    }),
+    pauseFor: (ms) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
+
+const schedulers = new Map<ApiProviderId, RequestScheduler>();
+
+export function getRequestScheduler(provider: ApiProviderId): RequestScheduler {
+  let scheduler = schedulers.get(provider);
+  if (!scheduler) {
+    scheduler = createRequestScheduler(RATE_LIMITS[provider]);
+    schedulers.set(provider, scheduler);
+  }
+  return scheduler;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Run a request through the provider's scheduler. A RateLimitError pauses the whole provider
+// and is retried a bounded number of times with capped backoff (Retry-After wins if given).
+export function scheduleRequest<T>(
+  provider: ApiProviderId,
+  task: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const scheduler = getRequestScheduler(provider);
+
+  return withRetry(() => scheduler.schedule(task, signal), {
+    maxRetries: RATE_LIMIT_MAX_RETRIES,
+    baseDelayMs: RATE_LIMIT_BASE_DELAY_MS,
+    maxDelayMs: RATE_LIMIT_MAX_DELAY_MS,
+    signal,
+    shouldRetry: error => error instanceof RateLimitError,
+    getDelayMs: error => (error instanceof RateLimitError ? error.retryAfterMs : undefined),
+    onRetry: (_error, attempt, delayMs) => {
+      scheduler.pauseFor(delayMs);
+      console.log(`⏳ ${provider} rate limit hit, retry ${attempt}/${RATE_LIMIT_MAX_RETRIES} in ${Math.round(delayMs)} ms`);
+    },
+  });
+}
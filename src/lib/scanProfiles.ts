@@ -0,0 +1,81 @@
+import type { ScanProfile, ScanProfileId } from '@/types/scanProfile';
+
+// Source-specific prompts, clean-up rules and matching hints
+
+export const SCAN_PROFILES: Record<ScanProfileId, ScanProfile> = {
+  general: {
+    id: 'general',
+    label: 'Allgemein',
+    description: 'Für beliebige Bilder mit Film- oder Serientiteln',
+    minExpectedTitles: 1,
+    promptHint: '',
+    postprocess: { stripPatterns: [] },
+    matching: {},
+  },
+  streaming: {
+    id: 'streaming',
+    label: 'Streaming-Screenshot',
+    description: 'Netflix, Prime Video, Disney+ & Co.',
+    minExpectedTitles: 3,
+    promptHint: `Das Bild ist ein Screenshot einer Streaming-Oberfläche (z.B. Netflix, Prime Video, Disney+).
+    Titel stehen meist als Logo oder Schriftzug auf den Kacheln.
+    Ignoriere Menüpunkte, Reihen-Überschriften (z.B. "Beliebt auf Netflix", "Weiterschauen"), Labels wie "Neu", "Neue Folgen" oder "Top 10", Altersfreigaben und Fortschrittsbalken.`,
+    postprocess: {
+      stripPatterns: [
+        /^(top\s*10|neu|neue folgen|neue staffel|nur auf \w+)\s*[-:]?\s+/i,
+        /\s+[-:]?\s*(neue folgen|neue staffel|jetzt ansehen)$/i,
+      ],
+    },
+    matching: { releaseEra: 'recent' },
+  },
+  shelf: {
+    id: 'shelf',
+    label: 'DVD-/Blu-ray-Regal',
+    description: 'Hüllen im Regal mit senkrechter Schrift auf dem Rücken',
+    minExpectedTitles: 3,
+    promptHint: `Das Bild zeigt ein Regal mit DVDs, Blu-rays oder Videokassetten.
+    Die Titel stehen meist senkrecht auf den Rücken (um 90 Grad gedreht). Lies jeden Rücken einzeln und gib den Titel in normaler Leserichtung zurück.
+    Ignoriere Studiologos, FSK-Kennzeichen, Formatangaben (DVD, Blu-ray, 4K) und Editionshinweise.`,
+    postprocess: {
+      stripPatterns: [
+        /\s*\b(blu\s?-?ray|dvd|4k(\s+ultra\s+hd|\s+uhd)?|uhd|steelbook)\b\s*/gi,
+        /\s*\b(special|collector\W?s|limited|deluxe|extended)\s+(edition|cut)\b\s*/gi,
+        /\s*\bdirector\W?s\s+cut\b\s*/gi,
+      ],
+      minConfidence: 0.3,
+    },
+    matching: { preferredMediaType: 'movie', releaseEra: 'older' },
+  },
+  poster: {
+    id: 'poster',
+    label: 'Kinoplakat',
+    description: 'Plakate und Aushänge im Kino',
+    minExpectedTitles: 1,
+    promptHint: `Das Bild zeigt Kinoplakate oder Filmaushänge. Der Titel ist meist der größte Schriftzug.
+    Ignoriere Taglines, Schauspielernamen über dem Titel, den Credits-Block, Kinostart-Hinweise (z.B. "Ab 12. Mai im Kino") und Bewertungszitate.`,
+    postprocess: {
+      stripPatterns: [/\s+[-:]?\s*(ab\s.+\sim kino|jetzt im kino|demnächst im kino)$/i],
+      defaultMediaType: 'movie',
+    },
+    matching: { preferredMediaType: 'movie', releaseEra: 'recent' },
+  },
+  tvGuide: {
+    id: 'tvGuide',
+    label: 'TV-Programm',
+    description: 'Gedruckte Programmzeitschrift oder Programmseite',
+    minExpectedTitles: 2,
+    promptHint: `Das Bild zeigt eine gedruckte TV-Programmseite mit Uhrzeiten und Sendern.
+    Extrahiere nur Filme und Serien, keine Nachrichten, Shows, Sport oder Magazine.
+    Uhrzeiten, Sendernamen, Episodentitel und Genre-/Länderangaben (z.B. "Krimi, D 2019") gehören nicht zum Titel; eine Jahreszahl aus dieser Angabe darf als "year" verwendet werden.`,
+    postprocess: {
+      stripPatterns: [/^\d{1,2}[.:]\d{2}\s*(uhr\s*)?/i],
+    },
+    matching: { preferredMediaType: 'tv' },
+  },
+};
+
+export const DEFAULT_SCAN_PROFILE_ID: ScanProfileId = 'general';
+
+// Unknown ids (e.g. from older settings) fall back to the general profile
+export const getScanProfile = (id: ScanProfileId | undefined): ScanProfile =>
+  (id && SCAN_PROFILES[id]) || SCAN_PROFILES[DEFAULT_SCAN_PROFILE_ID];
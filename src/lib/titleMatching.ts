@@ -0,0 +1,130 @@
+// Fuzzy title comparison for de-duplicating OCR results
+
+// Lowercase, strip diacritics and punctuation, collapse whitespace
+export function normalizeTitleForMatching(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '') // Remove combining marks (ä → a)
+    .replace(/ß/g, 'ss')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+type SubstitutionCost = (a: string, b: string) => number;
+
+const uniformSubstitutionCost: SubstitutionCost = (a, b) => (a === b ? 0 : 1);
+
+// Character pairs OCR engines mix up; swapping them costs less than an arbitrary typo
+const OCR_CONFUSABLE_PAIRS = new Set(['0o', '1l', '1i', 'il', '5s', '8b', '6g', 'ce', 'uv', 'nh', 'mn']);
+const OCR_CONFUSION_COST = 0.3;
+
+const ocrSubstitutionCost: SubstitutionCost = (a, b) => {
+  if (a === b) return 0;
+  return OCR_CONFUSABLE_PAIRS.has(a + b) || OCR_CONFUSABLE_PAIRS.has(b + a) ? OCR_CONFUSION_COST : 1;
+};
+
+// Classic Levenshtein distance with a single row buffer (optionally with weighted substitutions)
+export function levenshteinDistance(
+  a: string,
+  b: string,
+  getSubstitutionCost: SubstitutionCost = uniformSubstitutionCost
+): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = getSubstitutionCost(a[i - 1], b[j - 1]);
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + substitutionCost
+      );
+    }
+    previousRow = currentRow;
+  }
+
+  return previousRow[b.length];
+}
+
+// A release year in brackets at the end, e.g. "Der Herr der Ringe (2001)"
+const YEAR_SUFFIX_PATTERN = /\s*[([]((?:18|19|20)\d{2})[)\]]\s*$/;
+
+// Characters OCR engines commonly confuse, folded onto one representative (0/O, 1/l/I)
+const OCR_CONFUSIONS: Array<[RegExp, string]> = [
+  [/0/g, 'o'],
+  [/[1l]/g, 'i'],
+];
+
+export function getTitleYear(title: string): number | undefined {
+  const match = title.match(YEAR_SUFFIX_PATTERN);
+  return match ? parseInt(match[1]) : undefined;
+}
+
+const foldOcrConfusions = (token: string) =>
+  OCR_CONFUSIONS.reduce((folded, [pattern, replacement]) => folded.replace(pattern, replacement), token);
+
+// Comparison key: normalized, without year suffix and with OCR confusions folded. Pure numbers stay
+// untouched, otherwise "Ocean's 12" and "Ocean's 13" would become "ocean s i2" / "ocean s i3".
+export function getTitleMatchKey(title: string): string {
+  return normalizeTitleForMatching(title.replace(YEAR_SUFFIX_PATTERN, ''))
+    .split(' ')
+    .map(token => (/^\d+$/.test(token) ? token : foldOcrConfusions(token)))
+    .join(' ');
+}
+
+// Numbers and roman numerals distinguish sequels ("Scream 2" / "Scream 3", "Rocky II" / "Rocky III",
+// "Ocean's 12" / "Ocean's 13", "Apollo 10" / "Apollo 13")
+function getNumberTokens(key: string): string {
+  return key.split(' ').filter(token => /^(\d+|[ivx]+)$/.test(token)).join(' ');
+}
+
+function keySimilarity(keyA: string, keyB: string): number {
+  const maxLength = Math.max(keyA.length, keyB.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshteinDistance(keyA, keyB) / maxLength;
+}
+
+// Similarity between 0 (different) and 1 (identical after normalization)
+export function titleSimilarity(a: string, b: string): number {
+  return keySimilarity(getTitleMatchKey(a), getTitleMatchKey(b));
+}
+
+// Similarity of an OCR reading to a reference title (e.g. a TMDB candidate), misreads like "Inceptlon" cost little
+export function ocrTitleSimilarity(ocrTitle: string, referenceTitle: string): number {
+  const normalizedOcr = normalizeTitleForMatching(ocrTitle);
+  const normalizedReference = normalizeTitleForMatching(referenceTitle);
+  const maxLength = Math.max(normalizedOcr.length, normalizedReference.length);
+
+  if (maxLength === 0) return 1;
+  return 1 - levenshteinDistance(normalizedOcr, normalizedReference, ocrSubstitutionCost) / maxLength;
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+export function isSameTitle(a: string, b: string, threshold = DEFAULT_SIMILARITY_THRESHOLD): boolean {
+  const keyA = getTitleMatchKey(a);
+  const keyB = getTitleMatchKey(b);
+  if (getNumberTokens(keyA) !== getNumberTokens(keyB)) return false;
+  return keySimilarity(keyA, keyB) >= threshold;
+}
+
+// Find the first known title that fuzzy-matches the given one
+export function findMatchingTitle(
+  title: string,
+  knownTitles: Iterable<string>,
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): string | null {
+  for (const knownTitle of knownTitles) {
+    if (isSameTitle(title, knownTitle, threshold)) {
+      return knownTitle;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+import type { OcrDetection } from '@/types/ocr';
+import { getTitleYear, isSameTitle } from '@/lib/titleMatching';
+
+// Merging detections of the same title from different scans into one list entry
+
+// All OCR spellings of an entry, the list title first
+export const getSpellings = (detection: OcrDetection): string[] => [detection.title, ...(detection.variants ?? [])];
+
+// Attach further spellings; returns the entry itself if nothing new was added
+function addSpellings(entry: OcrDetection, spellings: string[]): OcrDetection {
+  const known = new Set(getSpellings(entry));
+  const added = spellings.filter(spelling => {
+    if (known.has(spelling)) return false;
+    known.add(spelling);
+    return true;
+  });
+
+  return added.length > 0 ? { ...entry, variants: [...(entry.variants ?? []), ...added] } : entry;
+}
+
+// Same title in a different spelling, unless the years say it is a remake.
+// Identical titles always merge, the title is the key of a list row. Rows bound to a known id
+// (added by IMDb/TMDB id) are never fuzzy-merged, the id would be lost in a spelling variant.
+function isDuplicateEntry(entry: OcrDetection, detection: OcrDetection): boolean {
+  if (entry.title === detection.title) return true;
+  if (entry.knownMatch || detection.knownMatch) return false;
+
+  const entryYear = entry.year ?? getTitleYear(entry.title);
+  const detectionYear = detection.year ?? getTitleYear(detection.title);
+  if (entryYear && detectionYear && entryYear !== detectionYear) return false;
+
+  return getSpellings(entry).some(spelling => isSameTitle(spelling, detection.title));
+}
+
+// Add new detections to the list, folding fuzzy duplicates (case, diacritics, year suffix, OCR misreads) into existing entries
+export function mergeIncomingDetections(list: OcrDetection[], incoming: OcrDetection[]): OcrDetection[] {
+  const result = [...list];
+
+  for (const detection of incoming) {
+    const index = result.findIndex(entry => isDuplicateEntry(entry, detection));
+    if (index >= 0) {
+      const entry = addSpellings(result[index], getSpellings(detection));
+      // An id given for a listed title replaces its search
+      result[index] = detection.knownMatch ? { ...entry, knownMatch: detection.knownMatch } : entry;
+    } else {
+      result.push(detection);
+    }
+  }
+
+  return result;
+}
+
+// Merge entries that resolved to the same IMDb title; the first entry keeps its place and collects all spellings.
+// Returns the list itself if there was nothing to merge.
+export function mergeByImdbId(list: OcrDetection[], imdbIds: Record<string, string | null>): OcrDetection[] {
+  const entryIndexByImdbId = new Map<string, number>();
+  const result: OcrDetection[] = [];
+
+  for (const detection of list) {
+    const imdbId = imdbIds[detection.title];
+    const targetIndex = imdbId ? entryIndexByImdbId.get(imdbId) : undefined;
+
+    if (targetIndex === undefined) {
+      if (imdbId) entryIndexByImdbId.set(imdbId, result.length);
+      result.push(detection);
+    } else {
+      result[targetIndex] = addSpellings(result[targetIndex], getSpellings(detection));
+    }
+  }
+
+  return result.length < list.length ? result : list;
+}
@@ -1,38 +1,198 @@
-import { useState } from 'react';
+import { useRef, useState, type DragEvent } from 'react';
 import { Camera, CameraResultType, CameraSource } from '@capacitor/camera';
 import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-import { CameraIcon, Loader2Icon } from 'lucide-react';
+import { CameraIcon, ImagePlus, Loader2Icon, ScanLine, X } from 'lucide-react';
 import { MovieTitlesList } from '@/components/MovieTitlesList';
 import { LoadingScreen } from '@/components/LoadingScreen';
+import { SettingsSheet } from '@/components/SettingsSheet';
+import { ScanProfilePicker } from '@/components/ScanProfilePicker';
+import { ScanPhotoStrip } from '@/components/ScanPhotoStrip';
+import { LiveScanView } from '@/components/LiveScanView';
+import { CropDialog } from '@/components/CropDialog';
+import { BatchImportProgress } from '@/components/BatchImportProgress';
+import { useBatchImport } from '@/hooks/useBatchImport';
+import { getSettings } from '@/services/settingsService';
+import { describeOcrError, isCancelledError } from '@/services/ocrErrors';
+import { describeReviewReason } from '@/services/ocrGuard';
 import { extractTextFromImage } from '@/services/ocrService';
+import { filesToImportSources, isNativeGalleryAvailable, pickImagesFromGallery } from '@/services/imageImportService';
+import { getSpellings, mergeByImdbId, mergeIncomingDetections } from '@/lib/titleMerge';
+import type { ImportSource } from '@/types/import';
+import type { BoundingBox, OcrDetection, OcrProviderPreference, OcrRecoveryAction, ScanImage, ScanResultMeta } from '@/types/ocr';
 
 const Index = () => {
   const [isReady, setIsReady] = useState(false);
-  const [movieTitles, setMovieTitles] = useState<string[]>([]);
+  const [movieTitles, setMovieTitles] = useState<OcrDetection[]>([]);
+  const [scanImages, setScanImages] = useState<ScanImage[]>([]);
+  const [highlightedTitle, setHighlightedTitle] = useState<string | null>(null);
   const [processedTitles, setProcessedTitles] = useState<Set<string>>(new Set());
   const [movieData, setMovieData] = useState<any[]>([]);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [isLiveScanning, setIsLiveScanning] = useState(false);
+  const [imageToCrop, setImageToCrop] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [streamedTitleCount, setStreamedTitleCount] = useState(0);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const scanAbortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
-  const handleTitlesExtracted = (titles: string[]) => {
+  const handleTitlesExtracted = (detections: OcrDetection[]) => {
     setMovieTitles(prevTitles => {
-      const allTitles = [...prevTitles, ...titles];
-      // Remove duplicates
-      return [...new Set(allTitles)];
+      // The finished response can hold back titles of the same photo that were already streamed in
+      const heldBackTitles = new Set(
+        detections.filter(detection => detection.needsReview).map(detection => `${detection.imageId}:${detection.title}`)
+      );
+      const updatedTitles = prevTitles.map(detection =>
+        !detection.needsReview && heldBackTitles.has(`${detection.imageId}:${detection.title}`)
+          ? { ...detection, needsReview: true }
+          : detection
+      );
+
+      // Spelling variants of a listed title are attached to the existing row instead of adding a new one
+      return mergeIncomingDetections(updatedTitles, detections);
     });
 
     // Mark new titles as processed (they will be processed by the hook)
     setProcessedTitles(prev => {
       const newProcessed = new Set(prev);
-      titles.forEach(title => newProcessed.add(title));
+      detections.forEach(detection => newProcessed.add(detection.title));
       return newProcessed;
     });
   };
 
+  // Keep the photo so detections can be shown on it later
+  const addScanResult = (
+    imageUrl: string,
+    detections: OcrDetection[],
+    { imageId = crypto.randomUUID(), model }: ScanResultMeta = {}
+  ): OcrDetection[] => {
+    const taggedDetections = detections.map(detection => ({ ...detection, imageId }));
+
+    if (taggedDetections.length > 0) {
+      setScanImages(prevImages => [
+        ...prevImages,
+        { id: imageId, dataUrl: imageUrl, capturedAt: Date.now(), detections: taggedDetections, model },
+      ]);
+      handleTitlesExtracted(taggedDetections);
+    }
+
+    return taggedDetections;
+  };
+
+  const {
+    items: importItems,
+    isImporting,
+    importImages,
+    cancel: cancelImport,
+    clearItems: clearImportItems,
+  } = useBatchImport({
+    onResult: addScanResult,
+  });
+
+  const runImport = async (sources: ImportSource[]) => {
+    if (sources.length === 0) {
+      toast({ title: 'Keine Bilder ausgewählt', description: 'Nur Bilddateien können importiert werden', variant: 'destructive' });
+      return;
+    }
+
+    const summary = await importImages(sources);
+    if (!summary) return;
+
+    if (summary.cancelled) {
+      toast({ title: 'Import abgebrochen', description: `${summary.totalTitles} Filmtitel bis zum Abbruch gefunden` });
+      return;
+    }
+
+    toast({
+      title: 'Import abgeschlossen',
+      description: summary.failedCount > 0
+        ? `${summary.totalTitles} Filmtitel gefunden, ${summary.failedCount} Bild(er) fehlgeschlagen`
+        : `${summary.totalTitles} Filmtitel aus ${sources.length} Bild(ern) gefunden`,
+      variant: summary.failedCount === sources.length ? 'destructive' : 'default',
+    });
+  };
+
+  // Native gallery on devices, file picker in the browser
+  const openImport = async () => {
+    if (!isNativeGalleryAvailable()) {
+      fileInputRef.current?.click();
+      return;
+    }
+
+    try {
+      await runImport(await pickImagesFromGallery());
+    } catch (error) {
+      // Closing the picker without a selection also rejects
+      console.log('Gallery import cancelled or failed:', error);
+    }
+  };
+
+  const handleFilesSelected = (files: FileList | null) => {
+    if (files && files.length > 0) {
+      void runImport(filesToImportSources(files));
+    }
+    // Allow selecting the same files again
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    if (isImporting || isProcessing) return;
+    void runImport(filesToImportSources(event.dataTransfer.files));
+  };
+
+  const isBusy = isCapturing || isProcessing || isImporting;
+
+  // Cancel the running single scan or batch import
+  const cancelScan = () => {
+    scanAbortControllerRef.current?.abort();
+    cancelImport();
+  };
+
+  // Rows that turned out to be the same IMDb title are merged, keeping all OCR spellings
+  const mergeResolvedTitles = (imdbIds: Record<string, string | null>) => {
+    setMovieTitles(prevTitles => mergeByImdbId(prevTitles, imdbIds));
+  };
+
+  // A box on a photo may carry a spelling that was merged into another row
+  const selectTitleFromPhoto = (title: string) => {
+    const row = movieTitles.find(detection => getSpellings(detection).includes(title));
+    setHighlightedTitle(row?.title ?? title);
+  };
+
+  // Release a held-back title for lookups
+  const confirmTitle = (title: string) => {
+    setMovieTitles(prevTitles => prevTitles.map(detection =>
+      detection.title === title ? { ...detection, needsReview: false } : detection
+    ));
+  };
+
+  const removeTitle = (title: string) => {
+    const row = movieTitles.find(detection => detection.title === title);
+    const spellings = new Set(row ? getSpellings(row) : [title]);
+
+    setMovieTitles(prevTitles => prevTitles.filter(detection => detection.title !== title));
+    setScanImages(prevImages => prevImages.map(image => ({
+      ...image,
+      detections: image.detections.filter(detection => !spellings.has(detection.title)),
+    })));
+  };
+
   const clearTitles = () => {
     setMovieTitles([]);
+    setScanImages([]);
+    setHighlightedTitle(null);
   };
 
   const capturePhoto = async () => {
@@ -56,7 +216,13 @@ const Index = () => {
 
       if (image.base64String) {
         const imageUrl = `data:image/jpeg;base64,${image.base64String}`;
-        await processImage(imageUrl);
+
+        // Let the user pick a region first if enabled, processing continues in the crop dialog
+        if (getSettings().preprocessing.askForCrop) {
+          setImageToCrop(imageUrl);
+        } else {
+          await processImage(imageUrl);
+        }
       }
     } catch (error) {
       console.error('Error capturing photo:', error);
@@ -70,22 +236,89 @@ const Index = () => {
     }
   };
 
-  const processImage = async (imageUrl: string) => {
+  // Offer the fitting way out of a failed scan as a toast action
+  const getRecoveryAction = (
+    recovery: OcrRecoveryAction | undefined,
+    imageUrl: string,
+    crop?: BoundingBox,
+    ocrProvider?: OcrProviderPreference
+  ) => {
+    switch (recovery) {
+      case 'retry':
+        return (
+          <ToastAction altText="Erneut versuchen" onClick={() => void processImage(imageUrl, crop, ocrProvider)}>
+            Erneut versuchen
+          </ToastAction>
+        );
+      // Only this scan runs offline, the provider setting stays as it is
+      case 'useOffline':
+        return (
+          <ToastAction altText="Offline erkennen" onClick={() => void processImage(imageUrl, crop, 'local')}>
+            Offline erkennen
+          </ToastAction>
+        );
+      case 'crop':
+        return (
+          <ToastAction altText="Ausschnitt wählen" onClick={() => setImageToCrop(imageUrl)}>
+            Ausschnitt wählen
+          </ToastAction>
+        );
+      case 'openSettings':
+        return (
+          <ToastAction altText="Einstellungen öffnen" onClick={() => setIsSettingsOpen(true)}>
+            Einstellungen
+          </ToastAction>
+        );
+      default:
+        return undefined;
+    }
+  };
+
+  const processImage = async (imageUrl: string, crop?: BoundingBox, ocrProvider?: OcrProviderPreference) => {
+    const controller = new AbortController();
+    scanAbortControllerRef.current = controller;
+
     try {
       setIsProcessing(true);
+      setStreamedTitleCount(0);
 
       toast({
         title: 'Verarbeitung läuft...',
         description: 'Filmtitel werden erkannt...',
       });
 
-      const extractedTitles = await extractTextFromImage(imageUrl);
+      // Titles appear in the list while the model is still answering, so lookups start early
+      const imageId = crypto.randomUUID();
+      const streamedTitles = new Set<string>();
+      const { detections, imageUrl: processedImageUrl, model, usedFallback, fromCache, review } = await extractTextFromImage(imageUrl, {
+        crop,
+        provider: ocrProvider,
+        signal: controller.signal,
+        onDetection: (detection) => {
+          streamedTitles.add(detection.title);
+          handleTitlesExtracted([{ ...detection, imageId }]);
+          setStreamedTitleCount(count => count + 1);
+        },
+        // The response may be held back: withdraw the rows this scan created until the final result is in
+        onStreamRollback: () => {
+          setMovieTitles(prevTitles => prevTitles.filter(
+            detection => detection.imageId !== imageId || !streamedTitles.has(detection.title)
+          ));
+          setStreamedTitleCount(0);
+        },
+      });
+      const extractedTitles = addScanResult(processedImageUrl, detections, { imageId, model });
 
-      if (extractedTitles.length > 0) {
-        handleTitlesExtracted(extractedTitles);
+      if (review && extractedTitles.length > 0) {
+        toast({ title: 'Titel bitte prüfen', description: describeReviewReason(review) });
+      } else if (extractedTitles.length > 0) {
         toast({
           title: 'Erfolgreich!',
-          description: `${extractedTitles.length} Filmtitel gefunden`,
+          description: fromCache
+            ? `${extractedTitles.length} Filmtitel aus dem Cache (Bild bereits erkannt)`
+            : usedFallback
+              ? `${extractedTitles.length} Filmtitel offline auf dem Gerät erkannt`
+              : `${extractedTitles.length} Filmtitel gefunden`,
         });
       } else {
         toast({
@@ -95,13 +328,21 @@ const Index = () => {
         });
       }
     } catch (error) {
+      if (isCancelledError(error)) {
+        toast({ title: 'Scan abgebrochen', description: 'Bereits erkannte Titel bleiben in der Liste' });
+        return;
+      }
+
       console.error('Error processing image:', error);
+      const { title, description, recovery } = describeOcrError(error);
       toast({
-        title: 'Verarbeitungsfehler',
-        description: 'Bild konnte nicht verarbeitet werden',
+        title,
+        description,
         variant: 'destructive',
+        action: getRecoveryAction(recovery, imageUrl, crop, ocrProvider),
       });
     } finally {
+      scanAbortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
@@ -111,15 +352,66 @@ const Index = () => {
   }
 
   return (
-    <div className="min-h-screen bg-background flex flex-col">
+    <div
+      className="min-h-screen bg-background flex flex-col"
+      onDragOver={handleDragOver}
+      onDragLeave={(event) => {
+        // Only reset when the pointer leaves the window, not when moving between children
+        if (!event.relatedTarget) setIsDraggingFiles(false);
+      }}
+      onDrop={handleDrop}
+    >
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-background/80 border-4 border-dashed border-primary pointer-events-none">
+          <div className="flex flex-col items-center gap-2 text-primary">
+            <ImagePlus className="w-10 h-10" />
+            <span className="font-medium">Bilder zum Importieren ablegen</span>
+          </div>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(event) => handleFilesSelected(event.target.files)}
+      />
+
+      <CropDialog
+        imageUrl={imageToCrop}
+        onConfirm={(crop) => {
+          const imageUrl = imageToCrop!;
+          setImageToCrop(null);
+          void processImage(imageUrl, crop);
+        }}
+        onCancel={() => setImageToCrop(null)}
+      />
+
+      {isLiveScanning && (
+        <LiveScanView
+          knownTitles={movieTitles.flatMap(getSpellings)}
+          onDetections={addScanResult}
+          onClose={() => setIsLiveScanning(false)}
+        />
+      )}
+
       {/* Film Liste - nimmt verfügbaren Platz ein und ist scrollable */}
       <div className="flex-1 overflow-hidden">
-        <div className="h-full p-4 pb-20 overflow-y-auto">
+        <div className="h-full p-4 pb-32 overflow-y-auto">
           <div className="max-w-md mx-auto">
+            <BatchImportProgress items={importItems} isImporting={isImporting} onDismiss={clearImportItems} />
+            <ScanPhotoStrip images={scanImages} rows={movieTitles} onSelectTitle={selectTitleFromPhoto} />
             <MovieTitlesList
               titles={movieTitles}
               onClear={clearTitles}
+              onConfirmTitle={confirmTitle}
+              onRemoveTitle={removeTitle}
+              onMergeResolvedTitles={mergeResolvedTitles}
+              onAddTitle={(detection) => handleTitlesExtracted([detection])}
               processedTitles={processedTitles}
+              highlightedTitle={highlightedTitle}
             />
           </div>
         </div>
@@ -127,17 +419,45 @@ const Index = () => {
 
       {/* Sticky Foto Button - schmaler und pillenförmig */}
       <div className="fixed bottom-0 left-0 right-0 p-4 pb-safe-area-inset-bottom pointer-events-none">
-        <div className="flex justify-center">
+        <div className="flex justify-center mb-3">
+          <ScanProfilePicker disabled={isBusy} />
+        </div>
+        <div className="flex justify-center items-center gap-3">
+          <SettingsSheet open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+          <Button
+            onClick={openImport}
+            disabled={isBusy}
+            variant="secondary"
+            size="icon"
+            className="pointer-events-auto rounded-full shadow-lg h-12 w-12"
+            title="Bilder importieren"
+          >
+            <ImagePlus className="w-5 h-5" />
+          </Button>
+          <Button
+            onClick={() => setIsLiveScanning(true)}
+            disabled={isBusy}
+            variant="secondary"
+            size="icon"
+            className="pointer-events-auto rounded-full shadow-lg h-12 w-12"
+            title="Live-Scan starten"
+          >
+            <ScanLine className="w-5 h-5" />
+          </Button>
           <Button
             onClick={capturePhoto}
-            disabled={isCapturing || isProcessing}
+            disabled={isBusy}
             size="lg"
             className="pointer-events-auto max-w-xs bg-gradient-primary hover:shadow-glow transition-all duration-300 transform hover:scale-105 shadow-lg rounded-full px-8 py-3"
           >
-            {isCapturing || isProcessing ? (
+            {isBusy ? (
               <>
                 <Loader2Icon className="w-5 h-5 mr-2 animate-spin" />
-                {isCapturing ? 'Fotografiere...' : 'Verarbeite...'}
+                {isCapturing
+                  ? 'Fotografiere...'
+                  : isImporting
+                    ? 'Importiere...'
+                    : streamedTitleCount > 0 ? `${streamedTitleCount} Titel erkannt...` : 'Verarbeite...'}
               </>
             ) : (
               <>
@@ -146,6 +466,17 @@ const Index = () => {
               </>
             )}
           </Button>
+          {(isProcessing || isImporting) && (
+            <Button
+              onClick={cancelScan}
+              variant="secondary"
+              size="icon"
+              className="pointer-events-auto rounded-full shadow-lg h-12 w-12"
+              title="Scan abbrechen"
+            >
+              <X className="w-5 h-5" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,38 @@
+import type { ApiProviderId } from '@/types/api';
+import { getSettings } from '@/services/settingsService';
+
+const OFFICIAL_API_BASE_URLS: Record<ApiProviderId, string> = {
+  tmdb: 'https://api.themoviedb.org/3',
+  omdb: 'https://www.omdbapi.com',
+  gemini: 'https://generativelanguage.googleapis.com',
+};
+
+// A build can point the defaults elsewhere with VITE_TMDB_BASE_URL, VITE_OMDB_BASE_URL and
+// VITE_GEMINI_BASE_URL; the settings override them at runtime
+export const DEFAULT_API_BASE_URLS: Record<ApiProviderId, string> = {
+  tmdb: import.meta.env.VITE_TMDB_BASE_URL || OFFICIAL_API_BASE_URLS.tmdb,
+  omdb: import.meta.env.VITE_OMDB_BASE_URL || OFFICIAL_API_BASE_URLS.omdb,
+  gemini: import.meta.env.VITE_GEMINI_BASE_URL || OFFICIAL_API_BASE_URLS.gemini,
+};
+
+const stripTrailingSlashes = (url: string) => url.trim().replace(/\/+$/, '');
+
+// Only absolute http(s) URLs make sense as an API server
+export function isValidApiBaseUrl(value: string): boolean {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Base URL for requests to a provider, without trailing slash
+export function getApiBaseUrl(provider: ApiProviderId): string {
+  const configured = getSettings().apiBaseUrls[provider];
+  return stripTrailingSlashes(configured && isValidApiBaseUrl(configured) ? configured : DEFAULT_API_BASE_URLS[provider]);
+}
+
+// True when requests go to a proxy or mock server instead of the official API
+export const isCustomApiBaseUrl = (provider: ApiProviderId) =>
+  getApiBaseUrl(provider) !== OFFICIAL_API_BASE_URLS[provider];
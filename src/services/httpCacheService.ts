@@ -0,0 +1,247 @@
+import { isIndexedDbAvailable, openDatabase, promisifyRequest, transactionDone } from '@/lib/indexedDb';
+import { getApiBaseUrl, isCustomApiBaseUrl } from '@/services/apiEndpointService';
+import type { ApiProviderId } from '@/types/api';
+import type { HttpCacheEntry, HttpCachePolicy, HttpCacheStats } from '@/types/httpCache';
+
+// Persistent response cache for TMDB and OMDb. IndexedDB is available in the browser and in the
+// Capacitor WebView alike, so web and app share this implementation.
+
+const DATABASE_NAME = 'filmScanner-httpCache';
+const DATABASE_VERSION = 2;
+const STORE_NAME = 'responses';
+const LAST_USED_INDEX = 'lastUsedAt';
+const STALE_UNTIL_INDEX = 'staleUntil';
+
+const MAX_ENTRIES = 2000;
+// A scan writes hundreds of responses; clean up at most this often
+const EVICTION_INTERVAL_MS = 60 * 1000;
+// LRU order only needs a coarse timestamp, so hits touch an entry at most this often, in batches
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+const TOUCH_FLUSH_DELAY_MS = 2000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Search results change as the catalogue grows; details and external ids hardly ever change
+const SEARCH_POLICY: HttpCachePolicy = { freshMs: DAY_MS, staleMs: 7 * DAY_MS };
+const DETAILS_POLICY: HttpCachePolicy = { freshMs: 30 * DAY_MS, staleMs: 180 * DAY_MS };
+// Ratings and vote counts drift slowly
+const RATING_POLICY: HttpCachePolicy = { freshMs: 3 * DAY_MS, staleMs: 30 * DAY_MS };
+// Streaming catalogues change with licensing deals, often at the start of a month
+const WATCH_PROVIDER_POLICY: HttpCachePolicy = { freshMs: DAY_MS, staleMs: 14 * DAY_MS };
+
+// Query parameters that must never end up in a cache key
+const SECRET_PARAMS = ['api_key', 'apikey'];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+// Keys currently revalidated in the background, so a burst of stale hits triggers one request
+const revalidatingKeys = new Set<string>();
+let lastEvictionAt = 0;
+// Cache hits whose lastUsedAt is written with the next batch
+const pendingTouches = new Set<string>();
+let touchTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= openDatabase(DATABASE_NAME, DATABASE_VERSION, (database, oldVersion) => {
+    // Version 1 had no staleUntil index; the cache is disposable, so it is simply recreated
+    if (oldVersion > 0) database.deleteObjectStore(STORE_NAME);
+    const store = database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    store.createIndex(LAST_USED_INDEX, 'lastUsedAt');
+    store.createIndex(STALE_UNTIL_INDEX, 'staleUntil');
+  }).catch(error => {
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+}
+
+export const isHttpCacheSupported = () => isIndexedDbAvailable();
+
+function getCachePolicy(provider: ApiProviderId, endpoint: string, params: Record<string, string>): HttpCachePolicy {
+  if (provider === 'omdb') {
+    return params.i ? RATING_POLICY : SEARCH_POLICY;
+  }
+  if (endpoint.endsWith('/watch/providers')) return WATCH_PROVIDER_POLICY;
+  return endpoint.startsWith('/search/') ? SEARCH_POLICY : DETAILS_POLICY;
+}
+
+function buildCacheKey(provider: ApiProviderId, endpoint: string, params: Record<string, string>): string {
+  const query = Object.entries(params)
+    .filter(([name]) => !SECRET_PARAMS.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join('&');
+  // Answers from a proxy or mock server are kept apart from the official ones
+  const scope = isCustomApiBaseUrl(provider) ? `${provider}@${getApiBaseUrl(provider)}` : provider;
+  return `${scope}:${endpoint}?${query}`;
+}
+
+async function readEntry(key: string): Promise<HttpCacheEntry | null> {
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readonly');
+  const entry = await promisifyRequest<HttpCacheEntry | undefined>(transaction.objectStore(STORE_NAME).get(key));
+
+  // Expired entries are pruned by the next eviction
+  if (!entry || Date.now() > entry.staleUntil) return null;
+
+  if (Date.now() - entry.lastUsedAt > TOUCH_INTERVAL_MS) scheduleTouch(key);
+  return entry;
+}
+
+function scheduleTouch(key: string) {
+  pendingTouches.add(key);
+  touchTimer ??= setTimeout(() => {
+    touchTimer = null;
+    flushTouches().catch(error => console.warn('Could not update API cache usage:', error));
+  }, TOUCH_FLUSH_DELAY_MS);
+}
+
+// Write the LRU timestamps of all recent hits in one transaction
+async function flushTouches(): Promise<void> {
+  const keys = [...pendingTouches];
+  pendingTouches.clear();
+
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const now = Date.now();
+
+  for (const key of keys) {
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const entry = request.result as HttpCacheEntry | undefined;
+      if (entry) store.put({ ...entry, lastUsedAt: now });
+    };
+  }
+
+  await transactionDone(transaction);
+}
+
+async function writeEntry(key: string, provider: ApiProviderId, data: unknown, policy: HttpCachePolicy): Promise<void> {
+  const database = await getDatabase();
+  const now = Date.now();
+  const entry: HttpCacheEntry = {
+    key,
+    provider,
+    data,
+    size: JSON.stringify(data).length,
+    storedAt: now,
+    freshUntil: now + policy.freshMs,
+    staleUntil: now + policy.freshMs + policy.staleMs,
+    lastUsedAt: now,
+  };
+
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).put(entry);
+  await transactionDone(transaction);
+
+  if (now - lastEvictionAt >= EVICTION_INTERVAL_MS) {
+    lastEvictionAt = now;
+    await evictOldEntries();
+  }
+}
+
+// Delete each key the cursor visits while `shouldDelete` agrees; resolves at the end or the first refusal.
+// Key cursors never load the (large) response bodies.
+function deleteWithKeyCursor(
+  store: IDBObjectStore,
+  request: IDBRequest<IDBCursor | null>,
+  shouldDelete: () => boolean
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || !shouldDelete()) {
+        resolve();
+        return;
+      }
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB cursor failed'));
+  });
+}
+
+// Delete entries past their stale period and the least recently used ones beyond MAX_ENTRIES
+async function evictOldEntries(): Promise<void> {
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  const expiredRequest = store.index(STALE_UNTIL_INDEX).openKeyCursor(IDBKeyRange.upperBound(Date.now()));
+  await deleteWithKeyCursor(store, expiredRequest, () => true);
+
+  let surplus = await promisifyRequest(store.count()) - MAX_ENTRIES;
+  if (surplus > 0) {
+    // Walk from the least recently used entry; stop once nothing more needs to go
+    await deleteWithKeyCursor(store, store.index(LAST_USED_INDEX).openKeyCursor(), () => surplus-- > 0);
+  }
+
+  await transactionDone(transaction);
+}
+
+function storeInBackground(key: string, provider: ApiProviderId, data: unknown, policy: HttpCachePolicy) {
+  writeEntry(key, provider, data, policy)
+    .catch(error => console.warn('Could not store API response in cache:', error));
+}
+
+// Serve a request from the cache: fresh entries directly, stale ones immediately while a background
+// request refreshes them, and everything else from the network. Errors are never cached.
+export async function cachedRequest<T>(
+  provider: ApiProviderId,
+  endpoint: string,
+  params: Record<string, string>,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  if (!isHttpCacheSupported()) return fetcher();
+
+  const key = buildCacheKey(provider, endpoint, params);
+  const policy = getCachePolicy(provider, endpoint, params);
+
+  let entry: HttpCacheEntry | null = null;
+  try {
+    entry = await readEntry(key);
+  } catch (error) {
+    console.warn('API cache not readable, requesting directly:', error);
+    return fetcher();
+  }
+
+  if (entry && Date.now() <= entry.freshUntil) {
+    return entry.data as T;
+  }
+
+  if (entry) {
+    if (!revalidatingKeys.has(key)) {
+      revalidatingKeys.add(key);
+      fetcher()
+        .then(data => storeInBackground(key, provider, data, policy))
+        .catch(error => console.warn(`Revalidating cached ${provider} response failed:`, error))
+        .finally(() => revalidatingKeys.delete(key));
+    }
+    return entry.data as T;
+  }
+
+  const data = await fetcher();
+  storeInBackground(key, provider, data, policy);
+  return data;
+}
+
+export async function getHttpCacheStats(): Promise<HttpCacheStats> {
+  if (!isHttpCacheSupported()) return { entryCount: 0, approximateBytes: 0 };
+
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readonly');
+  const entries = await promisifyRequest<HttpCacheEntry[]>(transaction.objectStore(STORE_NAME).getAll());
+  return {
+    entryCount: entries.length,
+    approximateBytes: entries.reduce((total, entry) => total + entry.size, 0),
+  };
+}
+
+export async function clearHttpCache(): Promise<void> {
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).clear();
+  await transactionDone(transaction);
+  console.log('🗑️ API response cache cleared');
+}
@@ -0,0 +1,35 @@
+import { Capacitor } from '@capacitor/core';
+import { Camera } from '@capacitor/camera';
+import { blobToDataUrl } from '@/services/imagePreprocessService';
+import type { ImportSource } from '@/types/import';
+
+// Upper limit per import so a huge selection doesn't burn the OCR quota
+export const MAX_IMPORT_IMAGES = 30;
+
+// On devices the native gallery picker is used, on the web a file input / drag & drop
+export const isNativeGalleryAvailable = () => Capacitor.isNativePlatform();
+
+// Open the native gallery with multi-selection
+export async function pickImagesFromGallery(): Promise<ImportSource[]> {
+  const { photos } = await Camera.pickImages({
+    quality: 85,
+    limit: MAX_IMPORT_IMAGES,
+    correctOrientation: true,
+  });
+
+  return photos.map((photo, index) => ({
+    name: photo.path?.split('/').pop() ?? `Bild ${index + 1}`,
+    readDataUrl: async () => blobToDataUrl(await (await fetch(photo.webPath)).blob()),
+  }));
+}
+
+// Convert selected or dropped files, ignoring everything that isn't an image
+export function filesToImportSources(files: FileList | File[]): ImportSource[] {
+  return Array.from(files)
+    .filter(file => file.type.startsWith('image/'))
+    .slice(0, MAX_IMPORT_IMAGES)
+    .map(file => ({
+      name: file.name,
+      readDataUrl: () => blobToDataUrl(file),
+    }));
+}
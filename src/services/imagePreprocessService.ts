@@ -0,0 +1,147 @@
+import type { PreprocessOptions, PreprocessedImage, PreprocessWorkerResponse } from '@/types/preprocess';
+import type { BoundingBox } from '@/types/ocr';
+import { getSettings } from '@/services/settingsService';
+
+const JPEG_QUALITY = 0.85;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, {
+  resolve: (image: PreprocessedImage) => void;
+  reject: (error: Error) => void;
+}>();
+
+// Preprocessing needs OffscreenCanvas inside a worker; older WebViews fall back to the raw image
+const isPreprocessingSupported = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/imagePreprocess.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.addEventListener('message', async (event: MessageEvent<PreprocessWorkerResponse>) => {
+    const response = event.data;
+    const pending = pendingRequests.get(response.id);
+    if (!pending) return;
+    pendingRequests.delete(response.id);
+
+    if (response.error !== undefined) {
+      pending.reject(new Error(response.error));
+      return;
+    }
+
+    const { id: _id, blob, ...dimensions } = response;
+    pending.resolve({ ...dimensions, dataUrl: await blobToDataUrl(blob) });
+  });
+
+  worker.addEventListener('error', (event) => {
+    console.error('Image preprocessing worker crashed:', event.message);
+    pendingRequests.forEach(pending => pending.reject(new Error('Bildvorverarbeitung fehlgeschlagen')));
+    pendingRequests.clear();
+    worker?.terminate();
+    worker = null;
+  });
+
+  return worker;
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Bild konnte nicht gelesen werden'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Run the preprocessing pipeline in the worker
+export async function preprocessImage(
+  imageUrl: string,
+  options: PreprocessOptions
+): Promise<PreprocessedImage> {
+  const blob = await (await fetch(imageUrl)).blob();
+  const id = nextRequestId++;
+
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    getWorker().postMessage({ id, blob, options });
+  });
+}
+
+// Preprocess according to the user settings; returns the original image if disabled or unsupported
+export async function prepareImageForOcr(
+  imageUrl: string,
+  crop?: PreprocessOptions['crop']
+): Promise<string> {
+  const { preprocessing } = getSettings();
+
+  // A user crop is applied even if the automatic optimizations are switched off
+  if ((!preprocessing.enabled && !crop) || !isPreprocessingSupported()) {
+    return imageUrl;
+  }
+
+  try {
+    const startedAt = performance.now();
+    const result = await preprocessImage(imageUrl, {
+      maxEdge: preprocessing.enabled ? preprocessing.maxEdge : Infinity,
+      deskew: preprocessing.enabled && preprocessing.deskew,
+      enhanceContrast: preprocessing.enabled && preprocessing.enhanceContrast,
+      quality: JPEG_QUALITY,
+      crop,
+    });
+
+    console.log('🖼️ Preprocessed image:', {
+      original: `${result.originalWidth}x${result.originalHeight}`,
+      processed: `${result.width}x${result.height}`,
+      skewAngle: result.skewAngle,
+      sizeReduction: `${Math.round((1 - result.dataUrl.length / imageUrl.length) * 100)}%`,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+
+    return result.dataUrl;
+  } catch (error) {
+    console.warn('Image preprocessing failed, using original image:', error);
+    return imageUrl;
+  }
+}
+
+// Decode an image just to read its pixel size
+export function getImageSize(imageUrl: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('Bild konnte nicht gelesen werden'));
+    image.src = imageUrl;
+  });
+}
+
+// Cut a normalized region out of an image without any further processing (used for OCR tiles)
+export async function cropImageRegion(imageUrl: string, region: BoundingBox): Promise<string> {
+  if (isPreprocessingSupported()) {
+    const result = await preprocessImage(imageUrl, {
+      maxEdge: Infinity,
+      deskew: false,
+      enhanceContrast: false,
+      quality: JPEG_QUALITY,
+      crop: region,
+    });
+    return result.dataUrl;
+  }
+
+  // Main-thread fallback for WebViews without OffscreenCanvas
+  const image = new Image();
+  image.src = imageUrl;
+  await image.decode();
+
+  const sourceX = region.x * image.naturalWidth;
+  const sourceY = region.y * image.naturalHeight;
+  const sourceWidth = region.width * image.naturalWidth;
+  const sourceHeight = region.height * image.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth);
+  canvas.height = Math.round(sourceHeight);
+  canvas.getContext('2d')!.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
@@ -0,0 +1,154 @@
+import type { Florence2ForConditionalGeneration, Florence2Processor, PreTrainedTokenizer } from '@huggingface/transformers';
+import type { BoundingBox, OcrDetection, OcrProvider, OcrProviderContext } from '@/types/ocr';
+import { extractYearFromTitle, finalizeDetections, normalizeBox } from '@/services/ocrPostprocess';
+import { OcrUnavailableError } from '@/services/ocrErrors';
+import { throwIfAborted } from '@/lib/abortable';
+
+// On-device OCR with Florence-2 via transformers.js (runs in the browser, no network after first download)
+const LOCAL_OCR_MODEL_ID = 'onnx-community/Florence-2-base-ft';
+const LOCAL_OCR_TASK = '<OCR_WITH_REGION>';
+const LOCAL_OCR_DTYPE = 'q8' as const;
+
+interface LocalOcrPipeline {
+  model: Florence2ForConditionalGeneration;
+  processor: Florence2Processor;
+  tokenizer: PreTrainedTokenizer;
+}
+
+// Remembers that the model files are in the browser cache, i.e. the model also loads without network
+const MODEL_DOWNLOADED_STORAGE_KEY = 'filmScanner.offlineModelDownloaded';
+
+let pipeline: LocalOcrPipeline | null = null;
+let loadingPromise: Promise<LocalOcrPipeline> | null = null;
+
+export const isLocalOcrModelDownloaded = (): boolean => {
+  try {
+    return localStorage.getItem(MODEL_DOWNLOADED_STORAGE_KEY) === LOCAL_OCR_MODEL_ID;
+  } catch {
+    return false;
+  }
+};
+
+// Load model, processor and tokenizer once. The model files are cached by the browser afterwards.
+export const initializeLocalOcr = async (): Promise<LocalOcrPipeline> => {
+  if (pipeline) return pipeline;
+  if (loadingPromise) return loadingPromise;
+
+  // Without network the first download can't happen; say so instead of waiting for failing requests
+  if (!isLocalOcrModelDownloaded() && !navigator.onLine) {
+    throw new OcrUnavailableError(
+      'Das Offline-Modell ist noch nicht heruntergeladen. Lade es in den Einstellungen, sobald du wieder online bist.'
+    );
+  }
+
+  loadingPromise = (async () => {
+    console.log('Loading on-device OCR model:', LOCAL_OCR_MODEL_ID);
+    const { Florence2ForConditionalGeneration, AutoProcessor, AutoTokenizer } = await import('@huggingface/transformers');
+
+    const [model, processor, tokenizer] = await Promise.all([
+      Florence2ForConditionalGeneration.from_pretrained(LOCAL_OCR_MODEL_ID, { dtype: LOCAL_OCR_DTYPE }),
+      AutoProcessor.from_pretrained(LOCAL_OCR_MODEL_ID),
+      AutoTokenizer.from_pretrained(LOCAL_OCR_MODEL_ID),
+    ]);
+
+    pipeline = {
+      model: model as Florence2ForConditionalGeneration,
+      processor: processor as Florence2Processor,
+      tokenizer,
+    };
+    console.log('On-device OCR model ready');
+    try {
+      localStorage.setItem(MODEL_DOWNLOADED_STORAGE_KEY, LOCAL_OCR_MODEL_ID);
+    } catch (error) {
+      console.warn('Could not remember the offline model download:', error);
+    }
+    return pipeline;
+  })();
+
+  try {
+    return await loadingPromise;
+  } catch (error) {
+    console.error('Failed to load on-device OCR model:', error);
+    throw new OcrUnavailableError('Offline-OCR-Modell konnte nicht geladen werden.', error);
+  } finally {
+    loadingPromise = null;
+  }
+};
+
+// Extract text lines from the image and treat each line as a title candidate
+// Generation itself can't be interrupted, so the signal is checked between the expensive steps
+const extractDetectionsLocally = async (imageUrl: string, { signal }: OcrProviderContext): Promise<OcrDetection[]> => {
+  const { model, processor, tokenizer } = await initializeLocalOcr();
+  const { RawImage } = await import('@huggingface/transformers');
+  throwIfAborted(signal);
+
+  console.log('Processing image with on-device OCR...');
+
+  const image = await RawImage.fromURL(imageUrl);
+  const prompts = processor.construct_prompts(LOCAL_OCR_TASK);
+  const textInputs = tokenizer(prompts);
+  const visionInputs = await processor(image);
+
+  throwIfAborted(signal);
+  const generatedIds = await model.generate({
+    ...textInputs,
+    ...visionInputs,
+    max_new_tokens: 512,
+  });
+
+  throwIfAborted(signal);
+  const generatedText = tokenizer.batch_decode(generatedIds as Parameters<typeof tokenizer.batch_decode>[0], {
+    skip_special_tokens: false,
+  })[0];
+  const result = processor.post_process_generation(generatedText, LOCAL_OCR_TASK, image.size);
+  const regions = result[LOCAL_OCR_TASK];
+
+  if (typeof regions === 'string') {
+    return finalizeDetections(regions.split('\n').map(line => extractYearFromTitle(line)));
+  }
+
+  const labels: string[] = regions.labels;
+  const quadBoxes: number[][] = regions.quad_boxes ?? [];
+
+  console.log('On-device OCR lines:', labels);
+
+  const detections = labels.map((label, index) => ({
+    ...extractYearFromTitle(label.replace(/<\/?s>/g, '')),
+    box: quadBoxes[index] ? quadToBox(quadBoxes[index], image.width, image.height) : undefined,
+  }));
+
+  return finalizeDetections(detections);
+};
+
+// Florence-2 returns quadrilaterals [x1, y1, ..., x4, y4] in pixels
+function quadToBox(quad: number[], imageWidth: number, imageHeight: number): BoundingBox | undefined {
+  const xs = quad.filter((_, index) => index % 2 === 0);
+  const ys = quad.filter((_, index) => index % 2 === 1);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return normalizeBox({
+    x: minX / imageWidth,
+    y: minY / imageHeight,
+    width: (Math.max(...xs) - minX) / imageWidth,
+    height: (Math.max(...ys) - minY) / imageHeight,
+  });
+}
+
+export const localOcrProvider: OcrProvider = {
+  id: 'local',
+  label: 'Auf dem Gerät (offline)',
+  // WebAssembly is required to run the ONNX model
+  isAvailable: () => typeof WebAssembly !== 'undefined',
+  isInitialized: () => pipeline !== null,
+  initialize: async () => {
+    await initializeLocalOcr();
+  },
+  // Inference on phones takes much longer than a Gemini round trip
+  timeoutFactor: 4,
+  getCacheKey: () => [LOCAL_OCR_MODEL_ID, LOCAL_OCR_DTYPE, LOCAL_OCR_TASK].join('\n'),
+  extractDetections: async (imageUrl, context) => ({
+    detections: await extractDetectionsLocally(imageUrl, context),
+    model: LOCAL_OCR_MODEL_ID,
+  }),
+};
@@ -0,0 +1,137 @@
+import { normalizeTitleForMatching } from '@/lib/titleMatching';
+import { isImdbId } from '@/lib/movieReference';
+import type { MatchOverride, MatchOverrideExport, MatchOverrideImportResult, MatchTarget } from '@/types/matchOverride';
+
+// Manual corrections of wrong matches; stored locally like the settings so they survive app restarts
+const OVERRIDES_STORAGE_KEY = 'filmScanner.matchOverrides';
+const EXPORT_FORMAT = 'filmScanner.matchOverrides';
+
+type OverridesListener = (overrides: Record<string, MatchOverride>) => void;
+
+let currentOverrides: Record<string, MatchOverride> | null = null;
+const listeners = new Set<OverridesListener>();
+
+// Overrides apply to every spelling that normalizes to the same text ("Dune", "DUNE", "Dune!")
+export const getOverrideKey = (ocrTitle: string) => normalizeTitleForMatching(ocrTitle);
+
+// Entries from storage or an import file are untrusted, anything malformed is dropped
+function isValidOverride(value: unknown): value is MatchOverride {
+  if (!value || typeof value !== 'object') return false;
+  const override = value as Partial<MatchOverride>;
+  const hasTmdbEntry = typeof override.tmdbId === 'number' && (override.mediaType === 'movie' || override.mediaType === 'tv');
+  const hasImdbId = typeof override.imdbId === 'string' && isImdbId(override.imdbId);
+
+  return typeof override.key === 'string' && override.key.length > 0 &&
+    typeof override.ocrTitle === 'string' &&
+    typeof override.title === 'string' &&
+    typeof override.updatedAt === 'number' &&
+    (hasTmdbEntry || hasImdbId);
+}
+
+function readStoredOverrides(): Record<string, MatchOverride> {
+  try {
+    const stored = localStorage.getItem(OVERRIDES_STORAGE_KEY);
+    if (!stored) return {};
+
+    const parsed = JSON.parse(stored) as unknown[];
+    return Object.fromEntries(parsed.filter(isValidOverride).map(override => [override.key, override]));
+  } catch (error) {
+    console.warn('Failed to read stored match overrides:', error);
+    return {};
+  }
+}
+
+function writeOverrides(overrides: Record<string, MatchOverride>) {
+  currentOverrides = overrides;
+
+  try {
+    localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(Object.values(overrides)));
+  } catch (error) {
+    console.warn('Failed to persist match overrides:', error);
+  }
+
+  listeners.forEach(listener => listener(overrides));
+}
+
+// All overrides by key (cached after first read, a new object after every change)
+export function getMatchOverrides(): Record<string, MatchOverride> {
+  if (!currentOverrides) {
+    currentOverrides = readStoredOverrides();
+  }
+  return currentOverrides;
+}
+
+export const getMatchOverride = (ocrTitle: string): MatchOverride | undefined =>
+  getMatchOverrides()[getOverrideKey(ocrTitle)];
+
+// Bind an OCR title to an entry, replacing an existing override for the same normalized title
+export function setMatchOverride(ocrTitle: string, target: MatchTarget): MatchOverride {
+  const override: MatchOverride = { ...target, key: getOverrideKey(ocrTitle), ocrTitle, updatedAt: Date.now() };
+  if (!isValidOverride(override)) {
+    throw new Error('Zuordnung braucht eine TMDB-ID mit Typ oder eine IMDb-ID (tt…).');
+  }
+
+  console.log('📌 Match override saved:', ocrTitle, '→', override.title, override.imdbId ?? `${override.mediaType}/${override.tmdbId}`);
+  writeOverrides({ ...getMatchOverrides(), [override.key]: override });
+  return override;
+}
+
+export function removeMatchOverride(key: string) {
+  const { [key]: removed, ...remaining } = getMatchOverrides();
+  if (removed) writeOverrides(remaining);
+}
+
+export function subscribeToMatchOverrides(listener: OverridesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function exportMatchOverrides(): string {
+  const data: MatchOverrideExport = {
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    overrides: Object.values(getMatchOverrides()).sort((a, b) => a.key.localeCompare(b.key)),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// Merge a shared override table; for the same title the more recent correction wins
+export function importMatchOverrides(json: string): MatchOverrideImportResult {
+  let data: Partial<MatchOverrideExport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Die Datei ist kein gültiges JSON.');
+  }
+  if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.overrides)) {
+    throw new Error('Die Datei enthält keine Film-Scanner-Zuordnungen.');
+  }
+
+  const overrides = { ...getMatchOverrides() };
+  const result: MatchOverrideImportResult = { added: 0, updated: 0, skipped: 0 };
+
+  for (const entry of data.overrides) {
+    // Keys are recomputed so files from older versions with a different normalization still apply
+    const override = isValidOverride(entry) ? { ...entry, key: getOverrideKey(entry.ocrTitle) || entry.key } : null;
+    const existing = override && overrides[override.key];
+
+    if (!override || (existing && existing.updatedAt >= override.updatedAt)) {
+      result.skipped++;
+      continue;
+    }
+
+    overrides[override.key] = override;
+    if (existing) {
+      result.updated++;
+    } else {
+      result.added++;
+    }
+  }
+
+  if (result.added + result.updated > 0) writeOverrides(overrides);
+  console.log('📌 Match overrides imported:', result);
+  return result;
+}
@@ -1,21 +1,119 @@
-import { getImdbIdForTitle } from '@/services/tmdbService';
-import { getImdbRatingByImdbId } from '@/services/omdbService';
-import { extractYearFromTitle } from '@/services/ocrService';
+import { findByImdbId, getImdbIdForTitle, getImdbIdForTmdbEntry, getLookupHints, getTmdbEntry } from '@/services/tmdbService';
+import { getImdbRatingByImdbId, getMovieByImdbId } from '@/services/omdbService';
+import { getMatchOverride } from '@/services/matchOverrideService';
+import { getSettings } from '@/services/settingsService';
+import { parseMovieReference } from '@/lib/movieReference';
+import type { OcrDetection } from '@/types/ocr';
+import type { MatchCandidate, MovieReference, TitleVariant } from '@/types/tmdb';
+import type { MatchTarget } from '@/types/matchOverride';
 
 // Define a consistent return type for our service function
-interface MovieDataResponse {
+export interface MovieDataResponse {
   ocrTitle: string;
   title: string | null;
   imdbId: string | null;
   tmdbId: number | null;
+  mediaType: 'movie' | 'tv' | null;
   confidence: 'high' | 'medium' | 'low' | null;
   rating: number | null;
   votes: string | null;
+  candidates: MatchCandidate[];
+  matchedVariant: TitleVariant | null; // alternative title or translation the OCR text matched
+  isManualMatch: boolean;
 }
 
-export const fetchMovieData = async (title: string): Promise<MovieDataResponse> => {
-  const { title: cleanTitle, year } = extractYearFromTitle(title);
-  const options = { language: 'de-DE', region: 'DE' };
+type MovieMatch = Pick<
+  MovieDataResponse,
+  'title' | 'imdbId' | 'tmdbId' | 'mediaType' | 'confidence' | 'candidates' | 'matchedVariant' | 'isManualMatch'
+>;
+
+// A known entry (stored correction or row added by id) replaces the whole TMDB search.
+// It is the only candidate, so a corrected row can still be reset.
+async function resolveKnownMatch(target: MatchTarget, language: string, isManualMatch: boolean): Promise<MovieMatch> {
+  const imdbId = target.imdbId ??
+    (target.tmdbId && target.mediaType ? await getImdbIdForTmdbEntry(target.mediaType, target.tmdbId, language) : null);
+  const candidates: MatchCandidate[] = target.tmdbId && target.mediaType
+    ? [{ tmdbId: target.tmdbId, mediaType: target.mediaType, title: target.title, year: target.year, posterPath: target.posterPath, score: 100 }]
+    : [];
+
+  return {
+    title: target.title,
+    imdbId,
+    tmdbId: target.tmdbId,
+    mediaType: target.mediaType,
+    confidence: 'high',
+    candidates,
+    matchedVariant: null,
+    isManualMatch,
+  };
+}
+
+// Entries TMDB doesn't know are still usable through OMDb, just without a TMDB id
+async function resolveImdbReference(imdbId: string, language: string): Promise<MatchTarget> {
+  const found = await findByImdbId(imdbId, language);
+  if (found) {
+    const { tmdbId, mediaType, title, year, posterPath } = found;
+    return { tmdbId, mediaType, imdbId, title, year, posterPath };
+  }
+
+  const movie = await getMovieByImdbId(imdbId);
+  const year = movie.Year ? parseInt(movie.Year) : NaN;
+  return { tmdbId: null, mediaType: null, imdbId, title: movie.Title ?? imdbId, year: Number.isFinite(year) ? year : undefined };
+}
+
+async function resolveTmdbReference(tmdbId: number, mediaType: 'movie' | 'tv', language: string): Promise<MatchTarget> {
+  const { imdbId, title, year, posterPath } = await getTmdbEntry(mediaType, tmdbId, language);
+  return { tmdbId, mediaType, imdbId, title, year, posterPath };
+}
+
+export async function resolveMovieReference(
+  reference: MovieReference,
+  language = getSettings().locale.language
+): Promise<MatchTarget> {
+  if (reference.source === 'imdb') {
+    return resolveImdbReference(reference.imdbId, language);
+  }
+  if (reference.mediaType) {
+    return resolveTmdbReference(reference.tmdbId, reference.mediaType, language);
+  }
+  // A bare TMDB id can be a movie or a TV show
+  try {
+    return await resolveTmdbReference(reference.tmdbId, 'movie', language);
+  } catch {
+    return resolveTmdbReference(reference.tmdbId, 'tv', language);
+  }
+}
+
+// Resolve user input (IMDb id or link, TMDB link or id) into the entry it names
+export async function resolveMovieInput(input: string): Promise<MatchTarget> {
+  const reference = parseMovieReference(input);
+  if (!reference) {
+    throw new Error('Bitte eine IMDb-ID (tt…), einen IMDb- oder TMDB-Link oder eine TMDB-ID eingeben.');
+  }
+
+  try {
+    const target = await resolveMovieReference(reference);
+    console.log('🔗 Resolved', input, '→', target.title, target.imdbId ?? `${target.mediaType}/${target.tmdbId}`);
+    return target;
+  } catch (error) {
+    console.error('Error resolving movie reference:', reference, error);
+    throw new Error('Zu dieser ID wurde kein Film und keine Serie gefunden.');
+  }
+}
+
+// Row for a title added by id, detected titles keep their OCR spelling
+export const createDetectionForMatch = (target: MatchTarget): OcrDetection => ({
+  title: target.year ? `${target.title} (${target.year})` : target.title,
+  year: target.year,
+  mediaType: target.mediaType === 'tv' ? 'series' : target.mediaType === 'movie' ? 'movie' : undefined,
+  confidence: 1,
+  knownMatch: target,
+});
+
+export const fetchMovieData = async (detection: OcrDetection): Promise<MovieDataResponse> => {
+  const { title, year } = detection;
+  const { language, fallbackLanguages, region } = getSettings().locale;
+  const options = { language, fallbackLanguages, region, ...getLookupHints(detection) };
 
   // Base object for consistent returns
   const baseResponse: MovieDataResponse = {
@@ -23,19 +121,31 @@ export const fetchMovieData = async (title: string): Promise<MovieDataResponse>
     title: null,
     imdbId: null,
     tmdbId: null,
+    mediaType: null,
     confidence: null,
     rating: null,
     votes: null,
+    candidates: [],
+    matchedVariant: null,
+    isManualMatch: false,
   };
 
-  // 1. Fetch TMDB data
-  let movieData = null;
+  // 1. Use the entry a row was added with or the user's correction, otherwise fetch TMDB data
+  // (the year narrows the first search round and is a scoring hint afterwards)
+  let movieData: MovieMatch | null = null;
   try {
-    if (year) {
-      movieData = await getImdbIdForTitle(cleanTitle, { ...options, year });
-    }
-    if (!movieData) {
-      movieData = await getImdbIdForTitle(cleanTitle, options);
+    const override = getMatchOverride(title);
+    if (detection.knownMatch) {
+      movieData = await resolveKnownMatch(detection.knownMatch, options.language, false);
+    } else if (override) {
+      movieData = await resolveKnownMatch(override, options.language, true);
+    } else {
+      const automaticMatch = await getImdbIdForTitle(title, { ...options, year });
+      movieData = automaticMatch && {
+        ...automaticMatch,
+        matchedVariant: automaticMatch.matchedVariant ?? null,
+        isManualMatch: false,
+      };
     }
   } catch (error) {
     console.error(`Failed to fetch TMDB data for "${title}":`, error);
@@ -53,7 +163,11 @@ export const fetchMovieData = async (title: string): Promise<MovieDataResponse>
       title: movieData.title,
       imdbId: movieData.imdbId,
       tmdbId: movieData.tmdbId,
+      mediaType: movieData.mediaType,
       confidence: movieData.confidence,
+      candidates: movieData.candidates,
+      matchedVariant: movieData.matchedVariant,
+      isManualMatch: movieData.isManualMatch,
   };
 
   // If no IMDb ID, we can't get a rating, so return what we have
@@ -0,0 +1,118 @@
+import { isIndexedDbAvailable, openDatabase, promisifyRequest, sha256Hex, transactionDone } from '@/lib/indexedDb';
+import type { OcrExtraction, OcrProvider } from '@/types/ocr';
+import type { OcrCacheEntry, OcrCacheStats } from '@/types/ocrCache';
+import type { ScanProfile } from '@/types/scanProfile';
+
+const DATABASE_NAME = 'filmScanner-ocrCache';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'results';
+const LAST_USED_INDEX = 'lastUsedAt';
+
+// Eviction policy: least recently used entries beyond the limit, and anything older than the max age
+const MAX_ENTRIES = 300;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= openDatabase(DATABASE_NAME, DATABASE_VERSION, (database) => {
+    const store = database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    store.createIndex(LAST_USED_INDEX, 'lastUsedAt');
+  }).catch(error => {
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+}
+
+export const isOcrCacheSupported = () => isIndexedDbAvailable() && typeof crypto?.subtle !== 'undefined';
+
+// Hash of the decoded image bytes (not the data URL string) so the same image always yields the same key
+export async function hashImage(imageUrl: string): Promise<string> {
+  const bytes = await (await fetch(imageUrl)).arrayBuffer();
+  return sha256Hex(bytes);
+}
+
+// Model and (profile-specific) prompt are part of the key, so changing either invalidates old entries
+export async function buildOcrCacheKey(imageHash: string, provider: OcrProvider, profile: ScanProfile): Promise<string> {
+  const providerHash = await sha256Hex(new TextEncoder().encode(provider.getCacheKey(profile)));
+  return `${provider.id}:${providerHash.slice(0, 16)}:${imageHash}`;
+}
+
+export async function getCachedExtraction(key: string): Promise<OcrExtraction | null> {
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const entry = await promisifyRequest<OcrCacheEntry | undefined>(store.get(key));
+
+  if (!entry) return null;
+
+  if (Date.now() - entry.createdAt > MAX_AGE_MS) {
+    store.delete(key);
+    await transactionDone(transaction);
+    return null;
+  }
+
+  // Touch the entry for LRU eviction
+  store.put({ ...entry, lastUsedAt: Date.now() });
+  await transactionDone(transaction);
+  return { detections: entry.detections, model: entry.model ?? entry.provider };
+}
+
+export async function storeCachedExtraction(
+  key: string,
+  provider: OcrProvider,
+  { detections, model }: OcrExtraction
+): Promise<void> {
+  const database = await getDatabase();
+  const now = Date.now();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const entry: OcrCacheEntry = { key, provider: provider.id, detections, model, createdAt: now, lastUsedAt: now };
+  transaction.objectStore(STORE_NAME).put(entry);
+  await transactionDone(transaction);
+
+  await evictOldEntries();
+}
+
+// Delete expired entries and the least recently used ones beyond MAX_ENTRIES
+async function evictOldEntries(): Promise<void> {
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const entryCount = await promisifyRequest(store.count());
+  let surplus = entryCount - MAX_ENTRIES;
+  const expiredBefore = Date.now() - MAX_AGE_MS;
+
+  // Walk from the least recently used entry; stop once nothing more needs to go
+  const request = store.index(LAST_USED_INDEX).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const entry = cursor.value as OcrCacheEntry;
+    if (surplus > 0 || entry.lastUsedAt < expiredBefore) {
+      cursor.delete();
+      surplus--;
+      cursor.continue();
+    }
+  };
+
+  await transactionDone(transaction);
+}
+
+export async function getOcrCacheStats(): Promise<OcrCacheStats> {
+  if (!isOcrCacheSupported()) return { entryCount: 0 };
+
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readonly');
+  const entryCount = await promisifyRequest(transaction.objectStore(STORE_NAME).count());
+  return { entryCount };
+}
+
+export async function clearOcrCache(): Promise<void> {
+  const database = await getDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).clear();
+  await transactionDone(transaction);
+  console.log('🗑️ OCR cache cleared');
+}
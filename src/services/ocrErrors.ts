@@ -0,0 +1,169 @@
+import {
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import { isAbortError, TimeoutError } from '@/lib/abortable';
+import type { OcrErrorCode, OcrRecoveryAction } from '@/types/ocr';
+
+// Typed OCR failures; the message is German and safe to show to the user
+
+export class OcrError extends Error {
+  readonly code: OcrErrorCode;
+  readonly retryable: boolean;
+  readonly originalError?: unknown;
+
+  constructor(code: OcrErrorCode, message: string, options: { retryable?: boolean; originalError?: unknown } = {}) {
+    super(message);
+    this.name = 'OcrError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.originalError = options.originalError;
+  }
+}
+
+export class OcrAuthError extends OcrError {
+  constructor(originalError?: unknown) {
+    super('auth', 'Gemini API Key ist ungültig oder fehlt.', { originalError });
+    this.name = 'OcrAuthError';
+  }
+}
+
+export class OcrQuotaError extends OcrError {
+  readonly retryAfterMs?: number;
+
+  constructor(retryAfterMs?: number, originalError?: unknown) {
+    super('quota', 'Gemini API Quota überschritten. Bitte später versuchen.', { retryable: true, originalError });
+    this.name = 'OcrQuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class OcrBlockedError extends OcrError {
+  constructor(originalError?: unknown) {
+    super('blocked', 'Inhalt wurde von Gemini blockiert.', { originalError });
+    this.name = 'OcrBlockedError';
+  }
+}
+
+export class OcrNetworkError extends OcrError {
+  constructor(originalError?: unknown) {
+    super('network', 'Keine Verbindung zur Texterkennung. Bitte Internetverbindung prüfen.', { retryable: true, originalError });
+    this.name = 'OcrNetworkError';
+  }
+}
+
+export class OcrTimeoutError extends OcrError {
+  constructor(timeoutMs: number, originalError?: unknown) {
+    super('timeout', `Texterkennung hat nicht innerhalb von ${Math.round(timeoutMs / 1000)} s geantwortet.`, {
+      retryable: true,
+      originalError,
+    });
+    this.name = 'OcrTimeoutError';
+  }
+}
+
+export class OcrUnparsableError extends OcrError {
+  constructor(originalError?: unknown) {
+    super('unparsable', 'Antwort der Texterkennung konnte nicht gelesen werden.', { retryable: true, originalError });
+    this.name = 'OcrUnparsableError';
+  }
+}
+
+export class OcrCancelledError extends OcrError {
+  constructor() {
+    super('cancelled', 'Scan abgebrochen.');
+    this.name = 'OcrCancelledError';
+  }
+}
+
+export class OcrUnavailableError extends OcrError {
+  constructor(message = 'Kein OCR-Anbieter verfügbar. Bitte Internetverbindung oder Einstellungen prüfen.', originalError?: unknown) {
+    super('unavailable', message, { originalError });
+    this.name = 'OcrUnavailableError';
+  }
+}
+
+// Google RPC details carry the suggested wait for quota errors, e.g. { retryDelay: '12s' }
+function getRetryDelayMs(error: GoogleGenerativeAIFetchError): number | undefined {
+  const retryInfo = error.errorDetails?.find(detail => typeof detail.retryDelay === 'string');
+  const seconds = retryInfo ? parseFloat(retryInfo.retryDelay as string) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+// Map anything thrown by the Gemini SDK (or fetch) onto the typed hierarchy
+export function toOcrError(error: unknown): OcrError {
+  if (error instanceof OcrError) return error;
+
+  if (error instanceof TimeoutError) {
+    return new OcrTimeoutError(error.timeoutMs, error);
+  }
+
+  if (isAbortError(error) || error instanceof GoogleGenerativeAIAbortError) {
+    return new OcrCancelledError();
+  }
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const isInvalidKey = error.errorDetails?.some(detail => detail.reason === 'API_KEY_INVALID');
+    if (error.status === 401 || error.status === 403 || isInvalidKey) {
+      return new OcrAuthError(error);
+    }
+    if (error.status === 429) {
+      return new OcrQuotaError(getRetryDelayMs(error), error);
+    }
+    if (error.status === 408 || error.status === undefined || error.status >= 500) {
+      return new OcrNetworkError(error);
+    }
+    return new OcrError('unknown', 'Texterkennung fehlgeschlagen.', { originalError: error });
+  }
+
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return new OcrBlockedError(error);
+  }
+
+  // fetch() rejects with a TypeError when the network is down; the SDK wraps it with this prefix
+  if (error instanceof TypeError || (error instanceof Error && error.message.startsWith('Error fetching from'))) {
+    return new OcrNetworkError(error);
+  }
+
+  return new OcrError('unknown', 'Texterkennung fehlgeschlagen.', { originalError: error });
+}
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof OcrCancelledError || isAbortError(error);
+
+export interface OcrErrorDescription {
+  title: string;
+  description: string;
+  recovery?: OcrRecoveryAction;
+}
+
+// User-facing title, text and suggested recovery for a failed scan
+export function describeOcrError(error: unknown): OcrErrorDescription {
+  const ocrError = toOcrError(error);
+
+  switch (ocrError.code) {
+    case 'auth':
+      return { title: 'Zugang verweigert', description: ocrError.message, recovery: 'useOffline' };
+    case 'quota':
+      return { title: 'Kontingent erschöpft', description: ocrError.message, recovery: 'useOffline' };
+    case 'blocked':
+      return {
+        title: 'Bild abgelehnt',
+        description: `${ocrError.message} Wähle einen engeren Ausschnitt mit nur den Titeln.`,
+        recovery: 'crop',
+      };
+    case 'network':
+      return { title: 'Keine Verbindung', description: ocrError.message, recovery: 'retry' };
+    case 'timeout':
+      return { title: 'Zeitüberschreitung', description: ocrError.message, recovery: 'retry' };
+    case 'unparsable':
+      return { title: 'Unlesbare Antwort', description: ocrError.message, recovery: 'retry' };
+    case 'unavailable':
+      return { title: 'Texterkennung nicht verfügbar', description: ocrError.message, recovery: 'openSettings' };
+    case 'cancelled':
+      return { title: 'Abgebrochen', description: ocrError.message };
+    default:
+      return { title: 'Verarbeitungsfehler', description: ocrError.message, recovery: 'retry' };
+  }
+}
@@ -0,0 +1,130 @@
+import type { OcrDetection, OcrGuardReason, OcrReviewReason } from '@/types/ocr';
+import { normalizeTitleForMatching } from '@/lib/titleMatching';
+
+// Output guard: photographed screens and posters can contain any text, including instructions
+// the model may follow. Non-title output is dropped, suspicious responses are held back for review.
+
+// More titles than this in one image point to a runaway or manipulated response
+export const MAX_TITLES_PER_IMAGE = 60;
+
+// A response is held back when at least this many detections were rejected and they outnumber the rest
+const MIN_REJECTED_FOR_REVIEW = 3;
+
+const URL_PATTERN = /(https?:\/\/|www\.|\b[\w-]+\.(com|de|net|org|tv|io|app|ly)\b|\S+@\S+\.\w+)/i;
+
+// Text addressed to the model instead of a title (German and English)
+const INSTRUCTION_PATTERNS = [
+  /\b(ignore|ignoriere|disregard|vergiss|forget)\b.*\b(instructions?|anweisungen?|prompts?|previous|vorherigen?|above|oben|alles)\b/i,
+  /\b(system\s?prompt|you are (an? )?(ai|assistant|language model)|du bist (ein|eine) (ki|assistent|sprachmodell))\b/i,
+  /\b(respond|answer|reply|antworte|return|output|gib)\b.*\b(only|nur|stattdessen|instead|following|folgendes)\b/i,
+  // JSON-looking fragments ({"title": ...) and requests for a format, not titles that merely contain brackets ("[REC]")
+  /[{,]\s*"[^"]{1,40}"\s*:/,
+  /\b(as|als|in|im)\s+json\b/i,
+  /<\/?(system|instructions?|prompt|user|assistant)\b[^>]*>/i,
+];
+
+// Cast and crew lines from posters and covers; short words only count with a colon ("Mit Schirm, Charme und Melone")
+const CREDITS_PATTERNS = [
+  /^(starring|regie|directed by|ein film von|a film by|produced by|produziert von|written by|drehbuch|music by|darsteller|in den hauptrollen)\b\s*:?\s+\S/i,
+  /^(mit|with|buch|musik|cast)\s*:\s*\S/i,
+];
+
+// Buttons, menus and labels of streaming apps and covers (compared after normalization)
+const UI_TEXT = new Set([
+  'weiter ansehen', 'weiterschauen', 'weiter schauen', 'jetzt ansehen', 'ansehen', 'abspielen', 'wiedergabe',
+  'fortsetzen', 'trailer ansehen', 'mehr infos', 'mehr erfahren', 'more info',
+  'meine liste', 'my list', 'zur liste hinzufugen', 'watchlist', 'startseite', 'suche',
+  'serien', 'filme', 'neu und beliebt', 'neu beliebt', 'kategorien', 'einstellungen', 'abonnieren',
+  'jetzt streamen', 'kaufen', 'leihen', 'herunterladen', 'untertitel', 'episoden',
+  'staffeln', 'ahnliche titel', 'mehr davon', 'neue folgen', 'neue staffel', 'top 10',
+]);
+
+// Button words that are also real titles ("Play", "Download", "Trailer"); only dropped when the model
+// itself was unsure the text is a title
+const AMBIGUOUS_UI_TEXT = new Set(['play', 'resume', 'trailer', 'search', 'download', 'profil', 'details', 'folgen', 'neu']);
+const AMBIGUOUS_UI_TEXT_MAX_CONFIDENCE = 0.6;
+
+const UI_TEXT_PATTERNS = [
+  /^(staffel|season|folge|episode)\s*\d+$/,
+  /^fsk\s*\d+$/,
+  /^(ab\s*)?\d+\s*(min|minuten|std|stunden|h)\b/,
+  /^\d+\s*(match|ubereinstimmung)$/,
+  /^(beliebt|trending|im trend) (auf|bei|in)\b/,
+];
+
+// Long prose or several sentences are descriptions, not titles
+function isSentence(text: string): boolean {
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  return wordCount > 14 ||
+    (wordCount >= 6 && /\.\s*$/.test(text)) ||
+    (wordCount >= 6 && /\p{Ll}{3,}[.!?]\s+\p{Lu}/u.test(text));
+}
+
+// Classify text that is not a title; works on raw model output and on cleaned titles
+export function getSuspicionReason(text: string, confidence?: number): OcrGuardReason | undefined {
+  if (INSTRUCTION_PATTERNS.some(pattern => pattern.test(text))) return 'instruction';
+  if (URL_PATTERN.test(text)) return 'url';
+  if (CREDITS_PATTERNS.some(pattern => pattern.test(text.trim()))) return 'credits';
+
+  const normalized = normalizeTitleForMatching(text);
+  if (UI_TEXT.has(normalized) || UI_TEXT_PATTERNS.some(pattern => pattern.test(normalized))) return 'uiText';
+  if (AMBIGUOUS_UI_TEXT.has(normalized) && confidence !== undefined && confidence < AMBIGUOUS_UI_TEXT_MAX_CONFIDENCE) return 'uiText';
+  if (isSentence(text)) return 'sentence';
+
+  return undefined;
+}
+
+export interface OcrGuardResult {
+  detections: OcrDetection[];
+  rejectedCount: number;
+  review?: OcrReviewReason;
+}
+
+// Drop non-title output, cap the title count and decide whether the response needs a human look
+export function guardDetections(detections: OcrDetection[]): OcrGuardResult {
+  const accepted: OcrDetection[] = [];
+  const rejectedReasons: OcrGuardReason[] = [];
+
+  for (const detection of detections) {
+    const reason = detection.suspicion ?? getSuspicionReason(detection.title, detection.confidence);
+    if (reason) {
+      rejectedReasons.push(reason);
+    } else {
+      accepted.push(detection);
+    }
+  }
+
+  const review: OcrReviewReason | undefined = rejectedReasons.includes('instruction')
+    ? 'instruction'
+    : accepted.length > MAX_TITLES_PER_IMAGE
+      ? 'tooManyTitles'
+      : rejectedReasons.length >= MIN_REJECTED_FOR_REVIEW && rejectedReasons.length > accepted.length
+        ? 'mostlyRejected'
+        : undefined;
+
+  if (rejectedReasons.length > 0) {
+    console.warn('🛡️ OCR guard rejected detections:', rejectedReasons);
+  }
+  if (review) {
+    console.warn(`🛡️ OCR response held back for review (${review})`);
+  }
+
+  const capped = accepted.slice(0, MAX_TITLES_PER_IMAGE);
+  return {
+    detections: review ? capped.map(detection => ({ ...detection, needsReview: true })) : capped,
+    rejectedCount: rejectedReasons.length + accepted.length - capped.length,
+    review,
+  };
+}
+
+// User-facing explanation of why titles were held back
+export function describeReviewReason(reason: OcrReviewReason): string {
+  switch (reason) {
+    case 'instruction':
+      return 'Das Bild enthält Text, der wie eine Anweisung an die Texterkennung aussieht. Bitte prüfe die Titel, bevor sie nachgeschlagen werden.';
+    case 'tooManyTitles':
+      return `Ungewöhnlich viele Titel erkannt, nur die ersten ${MAX_TITLES_PER_IMAGE} wurden übernommen. Bitte prüfe die Titel, bevor sie nachgeschlagen werden.`;
+    case 'mostlyRejected':
+      return 'Die Antwort bestand überwiegend aus Text, der kein Titel ist. Bitte prüfe die übrigen Titel, bevor sie nachgeschlagen werden.';
+  }
+}
@@ -0,0 +1,85 @@
+import type { BoundingBox, OcrDetection } from '@/types/ocr';
+import type { ScanProfile } from '@/types/scanProfile';
+import { getSuspicionReason } from '@/services/ocrGuard';
+
+// Shared post-processing for raw OCR output of all providers
+
+// Extract year from movie title
+export const extractYearFromTitle = (title: string): { title: string; year?: number } => {
+  const yearMatch = title.match(/\((\d{4})\)\s*$/);
+  if (yearMatch) {
+    const year = parseInt(yearMatch[1]);
+    const titleWithoutYear = title.replace(/\s*\(\d{4}\)\s*$/, '').trim();
+    return { title: titleWithoutYear, year };
+  }
+  return { title: title.trim() };
+};
+
+export const cleanMovieTitle = (title: string): string => {
+  // Clean up movie title text - BEHALT Jahreszahlen in Klammern!
+  return title
+    // Remove unwanted characters but keep letters (including Umlaute), numbers, spaces, hyphens, colons, and parentheses
+    // \p{L} matches any Unicode letter, \p{N} matches any Unicode number
+    .replace(/[^\p{L}\p{N}\s\-:()]/gu, ' ')
+    // Normalize whitespace
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const isValidTitle = (title: string): boolean =>
+  title.length >= 2 &&
+  title.length <= 100 &&
+  !/^\d+(\.\d+)?$/.test(title); // Filter out numbers only
+
+// Clean, filter and de-duplicate detections (first occurrence of a title wins).
+// Non-title text is tagged before cleaning removes the URLs and punctuation that give it away.
+export const finalizeDetections = (detections: OcrDetection[]): OcrDetection[] => {
+  const seenTitles = new Set<string>();
+  const result: OcrDetection[] = [];
+
+  for (const detection of detections) {
+    const title = cleanMovieTitle(detection.title);
+    if (!isValidTitle(title) || seenTitles.has(title)) continue;
+
+    seenTitles.add(title);
+    const originalTitle = detection.originalTitle ? cleanMovieTitle(detection.originalTitle) : undefined;
+
+    result.push({
+      ...detection,
+      title,
+      originalTitle: originalTitle && originalTitle !== title ? originalTitle : undefined,
+      suspicion: detection.suspicion ?? getSuspicionReason(detection.title, detection.confidence),
+    });
+  }
+
+  return result;
+};
+
+// Clamp a box to the image and drop degenerate ones
+export const normalizeBox = (box: BoundingBox): BoundingBox | undefined => {
+  const x = Math.min(1, Math.max(0, box.x));
+  const y = Math.min(1, Math.max(0, box.y));
+  const width = Math.min(1 - x, Math.max(0, box.width));
+  const height = Math.min(1 - y, Math.max(0, box.height));
+
+  return width > 0 && height > 0 ? { x, y, width, height } : undefined;
+};
+
+// Apply the clean-up rules of a scan profile and tag detections with the profile for matching
+export const applyProfileRules = (detections: OcrDetection[], profile: ScanProfile): OcrDetection[] => {
+  const { stripPatterns, minConfidence, defaultMediaType } = profile.postprocess;
+
+  const processed = detections
+    .filter(detection => minConfidence === undefined || (detection.confidence ?? 1) >= minConfidence)
+    .map(detection => ({
+      ...detection,
+      title: stripPatterns.reduce((title, pattern) => title.replace(pattern, ' '), detection.title),
+      mediaType: !detection.mediaType || detection.mediaType === 'unknown'
+        ? defaultMediaType ?? detection.mediaType
+        : detection.mediaType,
+      profileId: profile.id,
+    }));
+
+  // Stripping can empty titles or turn two detections into the same title
+  return finalizeDetections(processed);
+};
@@ -1,211 +1,322 @@
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import type { OcrDetection, OcrExtraction, OcrProvider, OcrProviderId, OcrRequestOptions, OcrResult, TilingSettings } from '@/types/ocr';
+import type { ScanProfile } from '@/types/scanProfile';
+import { geminiOcrProvider } from '@/services/geminiOcrProvider';
+import { isLocalOcrModelDownloaded, localOcrProvider } from '@/services/localOcrProvider';
+import { getSettings } from '@/services/settingsService';
+import { cropImageRegion, getImageSize, prepareImageForOcr } from '@/services/imagePreprocessService';
+import { computeTileLayout, mapTileBoxToImage, mergeTileDetections } from '@/services/ocrTiling';
+import { applyProfileRules, finalizeDetections } from '@/services/ocrPostprocess';
+import { getSuspicionReason, guardDetections, MAX_TITLES_PER_IMAGE } from '@/services/ocrGuard';
+import { buildOcrCacheKey, getCachedExtraction, hashImage, isOcrCacheSupported, storeCachedExtraction } from '@/services/ocrCacheService';
+import { isCancelledError, OcrCancelledError, OcrError, OcrQuotaError, OcrUnavailableError, toOcrError } from '@/services/ocrErrors';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { throwIfAborted, withRetry, withTimeout } from '@/lib/abortable';
+import { getScanProfile } from '@/lib/scanProfiles';
+
+export { cleanMovieTitle, extractYearFromTitle } from '@/services/ocrPostprocess';
+
+// Backoff between retries of a transient failure
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 15000;
+
+// In 'auto' tiling mode, a full frame with at least this many titles is treated as dense
+const DENSE_IMAGE_TITLE_COUNT = 12;
+
+// All registered OCR providers
+export const OCR_PROVIDERS: Record<OcrProviderId, OcrProvider> = {
+  gemini: geminiOcrProvider,
+  local: localOcrProvider,
+};
 
-// Initialize Gemini AI
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
+// Resolve provider order from the current settings ('auto' = Gemini with offline fallback)
+function getProviderChain(ocrProvider = getSettings().ocrProvider): OcrProvider[] {
+  if (ocrProvider === 'auto') {
+    return [geminiOcrProvider, localOcrProvider];
+  }
 
-if (!GEMINI_API_KEY) {
-  console.warn('VITE_GEMINI_API_KEY not found. Gemini OCR will not work.');
+  return [OCR_PROVIDERS[ocrProvider]];
 }
 
-let genAI: GoogleGenerativeAI | null = null;
-let model: any = null;
+// Initialize the first usable provider of the current chain
+export const initializeOcr = async (): Promise<OcrProvider> => {
+  const chain = getProviderChain();
+  let lastError: unknown = null;
 
-export const initializeGemini = async () => {
-  if (model) return model;
+  for (const provider of chain) {
+    if (!provider.isAvailable()) {
+      console.log(`OCR provider "${provider.id}" not available, skipping`);
+      continue;
+    }
 
-  if (!GEMINI_API_KEY) {
-    throw new Error('Gemini API Key nicht gefunden. Bitte VITE_GEMINI_API_KEY in .env setzen.');
+    try {
+      await provider.initialize();
+      prewarmOfflineFallback();
+      return provider;
+    } catch (error) {
+      console.warn(`Failed to initialize OCR provider "${provider.id}":`, error);
+      lastError = error;
+    }
   }
 
-  try {
-    console.log('Initializing Gemini AI...');
-    genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-
-    // Use gemini-2.5-flash-lite for optimal performance
-    model = genAI.getGenerativeModel({
-      model: 'gemini-2.5-flash-lite',
-      generationConfig: {
-        temperature: 0.1,
-        topK: 1,
-        topP: 1,
-        maxOutputTokens: 2048,
-      },
-      safetySettings: [
-        {
-          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-      ],
-    });
-
-    console.log('Gemini AI initialized successfully');
-    return model;
-  } catch (error) {
-    console.error('Failed to initialize Gemini AI:', error);
-    throw new Error('Gemini AI konnte nicht initialisiert werden. Bitte API Key überprüfen.');
-  }
+  throw lastError instanceof Error
+    ? lastError
+    : new Error('Kein OCR-Anbieter verfügbar.');
 };
 
-export const extractTextFromImage = async (imageUrl: string): Promise<string[]> => {
-  try {
-    if (!model) {
-      console.log('Initializing Gemini AI...');
-      await initializeGemini();
-    }
+// Wait this long after startup before downloading the offline model in the background
+const PREWARM_DELAY_MS = 5000;
+
+type NetworkInformationNavigator = Navigator & { connection?: { saveData?: boolean } };
 
-    console.log('Starting text extraction from image...');
-    console.log('Image URL:', imageUrl.substring(0, 50) + '...');
+// In 'auto' mode the offline fallback is needed exactly when the network is gone, so its model is
+// downloaded once while online, when the app is idle. Data saver mode leaves it to the settings action.
+function prewarmOfflineFallback() {
+  if (getSettings().ocrProvider !== 'auto') return;
+  if (!localOcrProvider.isAvailable() || localOcrProvider.isInitialized() || isLocalOcrModelDownloaded()) return;
+  if (!navigator.onLine || (navigator as NetworkInformationNavigator).connection?.saveData) return;
 
-    // Extract base64 data from data URL
-    let base64Data: string;
-    let mimeType: string;
+  const prewarm = () => {
+    console.log('Downloading offline OCR model in the background...');
+    localOcrProvider.initialize()
+      .catch(error => console.warn('Background download of the offline OCR model failed:', error));
+  };
 
-    if (imageUrl.startsWith('data:')) {
-      const [mimePart, dataPart] = imageUrl.split(',');
-      mimeType = mimePart.split(':')[1].split(';')[0];
-      base64Data = dataPart;
+  setTimeout(() => {
+    if (typeof requestIdleCallback === 'function') {
+      requestIdleCallback(prewarm);
     } else {
-      throw new Error('Unsupported image format. Expected data URL.');
+      prewarm();
     }
+  }, PREWARM_DELAY_MS);
+}
 
-    console.log('Processing image with Gemini...');
-
-    // Create the prompt for movie title extraction
-    const prompt = `Analysiere dieses Bild und extrahiere alle sichtbaren Filmtitel.
-    Gib jeden Filmtitel zurück, einen pro Zeile.
-    Wenn eine Jahreszahl direkt beim Filmtitel sichtbar ist, füge sie in Klammern hinzu (z.B. "Der Herr der Ringe (2001)").
-    Wenn KEINE Jahreszahl sichtbar ist, gib NUR den Titel ohne Klammern zurück.
-    Behalte deutsche Umlaute und Sonderzeichen bei (ä, ö, ü, ß, etc.).
-    Achte besonders auf korrekte Erkennung von Umlauten und deutschen Buchstaben.
-    Ignoriere alle anderen Texte wie Schauspielernamen, Regisseure, Genres, etc.
-    Wenn mehrere Filme auf dem Bild sind, liste jeden Titel separat auf.
-    Antworte nur mit den Titeln, keine zusätzlichen Erklärungen.`;
-
-    // Prepare the image part
-    const imagePart = {
-      inlineData: {
-        data: base64Data,
-        mimeType: mimeType,
-      },
-    };
-
-    // Generate content
-    const result = await model.generateContent([
-      { text: prompt },
-      { inlineData: { data: base64Data, mimeType: mimeType } }
-    ]);
-    const response = await result.response;
-    const text = response.text();
+// Look up a cached result; cache failures never block OCR
+async function readFromCache(imageHash: string | null, provider: OcrProvider, profile: ScanProfile) {
+  if (!imageHash) return { key: null, extraction: null };
 
-    console.log('Gemini Response:', text);
+  try {
+    const key = await buildOcrCacheKey(imageHash, provider, profile);
+    return { key, extraction: await getCachedExtraction(key) };
+  } catch (error) {
+    console.warn('OCR cache lookup failed:', error);
+    return { key: null, extraction: null };
+  }
+}
 
-    if (!text || text.trim().length === 0) {
-      console.log('No text extracted from image');
-      return [];
-    }
+async function hashImageForCache(imageUrl: string): Promise<string | null> {
+  if (!getSettings().cacheOcrResults || !isOcrCacheSupported()) return null;
 
-    // Parse the response and extract titles
-    const extractedTitles = parseGeminiResponse(text);
-    const cleanedTitles = extractedTitles
-      .map(cleanMovieTitle)
-      .filter(title => title.length >= 2 && title.length <= 100)
-      .filter(title => !/^\d+(\.\d+)?$/.test(title)) // Filter out numbers only
-      .filter(title => title.trim().length > 0);
+  try {
+    return await hashImage(imageUrl);
+  } catch (error) {
+    console.warn('Could not hash image for OCR cache:', error);
+    return null;
+  }
+}
 
-    // Remove duplicates
-    const uniqueTitles = [...new Set(cleanedTitles)];
+interface ChainContext {
+  profile: ScanProfile;
+  // Tiles and live frames often hold only a few titles legitimately, so they skip the count-based escalation
+  minExpectedTitles: number;
+  signal?: AbortSignal;
+  onDetection?: (detection: OcrDetection) => void;
+  onStreamRollback?: () => void;
+}
 
-    console.log('Final extracted titles:', uniqueTitles);
+// One provider call with a per-attempt timeout and bounded retries for transient failures
+async function extractWithRetry(
+  imageUrl: string,
+  provider: OcrProvider,
+  { profile, minExpectedTitles, signal, onDetection }: ChainContext
+): Promise<OcrExtraction> {
+  const { ocrRequest } = getSettings();
+  const timeoutMs = ocrRequest.timeoutMs * (provider.timeoutFactor ?? 1);
+
+  return withRetry(
+    () => withTimeout(
+      attemptSignal => provider.extractDetections(imageUrl, { profile, minExpectedTitles, signal: attemptSignal, onDetection }),
+      timeoutMs,
+      signal
+    ).catch(error => {
+      throw toOcrError(error);
+    }),
+    {
+      maxRetries: ocrRequest.maxRetries,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      signal,
+      shouldRetry: error => error instanceof OcrError && error.retryable,
+      getDelayMs: error => (error instanceof OcrQuotaError ? error.retryAfterMs : undefined),
+      onRetry: (error, attempt, delayMs) =>
+        console.log(`🔁 Retrying OCR provider "${provider.id}" (attempt ${attempt}) in ${Math.round(delayMs)} ms:`, error),
+    }
+  );
+}
 
-    if (uniqueTitles.length === 0) {
-      console.log('No valid titles found in Gemini response');
-      return [];
+// Run one image through the provider chain, falling back to the next provider on failure.
+// The raw provider output is cached; profile rules are applied afterwards so they can change freely.
+async function runProviderChain(
+  imageUrl: string,
+  providers: OcrProvider[],
+  context: ChainContext
+): Promise<OcrExtraction & { provider: OcrProvider; fromCache: boolean }> {
+  const { profile, signal, onDetection, onStreamRollback } = context;
+  const imageHash = await hashImageForCache(imageUrl);
+  let lastError: OcrError | null = null;
+
+  // Streamed titles go through the same profile rules and output guard; a retry or fallback provider may repeat titles already reported.
+  // Rejected text is skipped like in guardDetections. Only what holds the whole scan for review (instruction-like text or
+  // more titles than allowed) stops streaming and rolls the reported titles back; the final result decides about the review.
+  const reportedTitles = new Set<string>();
+  let isStreamSuspicious = false;
+  const reportDetection = onDetection && ((raw: OcrDetection) => {
+    const [detection] = applyProfileRules([raw], profile);
+    if (!detection || isStreamSuspicious || reportedTitles.has(detection.title)) return;
+
+    const suspicion = detection.suspicion ?? getSuspicionReason(detection.title, detection.confidence);
+    if (suspicion === 'instruction' || (!suspicion && reportedTitles.size >= MAX_TITLES_PER_IMAGE)) {
+      isStreamSuspicious = true;
+      if (reportedTitles.size > 0) onStreamRollback?.();
+      return;
+    }
+    if (suspicion) return;
+
+    reportedTitles.add(detection.title);
+    onDetection(detection);
+  });
+
+  for (const [index, provider] of providers.entries()) {
+    const cached = await readFromCache(imageHash, provider, profile);
+    if (cached.extraction) {
+      const { detections, model } = cached.extraction;
+      console.log(`💾 OCR cache hit for provider "${provider.id}" (${detections.length} titles)`);
+      return { detections: applyProfileRules(detections, profile), model, provider, fromCache: true };
     }
 
-    return uniqueTitles;
-  } catch (error) {
-    console.error('Error in extractTextFromImage:', error);
+    try {
+      console.log(`Extracting titles with OCR provider "${provider.id}"...`);
+      const extraction = await extractWithRetry(imageUrl, provider, { ...context, onDetection: reportDetection });
 
-    // Handle specific Gemini errors
-    if (error instanceof Error) {
-      if (error.message.includes('API_KEY')) {
-        throw new Error('Gemini API Key ist ungültig oder fehlt.');
+      if (cached.key) {
+        storeCachedExtraction(cached.key, provider, extraction)
+          .catch(error => console.warn('Could not store OCR result in cache:', error));
       }
-      if (error.message.includes('quota') || error.message.includes('rate limit')) {
-        throw new Error('Gemini API Quota überschritten. Bitte später versuchen.');
+
+      return {
+        detections: applyProfileRules(extraction.detections, profile),
+        model: extraction.model,
+        provider,
+        fromCache: false,
+      };
+    } catch (error) {
+      lastError = toOcrError(error);
+
+      // Cancelling stops the whole chain, no fallback
+      if (lastError.code === 'cancelled' || signal?.aborted) {
+        throw new OcrCancelledError();
       }
-      if (error.message.includes('blocked')) {
-        throw new Error('Inhalt wurde von Gemini blockiert.');
+
+      console.error(`OCR provider "${provider.id}" failed:`, error);
+
+      if (index < providers.length - 1) {
+        console.log('Falling back to next OCR provider...');
       }
     }
-
-    return [];
   }
-};
 
-// Parse Gemini response to extract movie titles
-function parseGeminiResponse(response: string): string[] {
-  // Split by newlines and clean up
-  const lines = response.split('\n')
-    .map(line => line.trim())
-    .filter(line => line.length > 0);
-
-  const titles: string[] = [];
-
-  for (const line of lines) {
-    // Skip lines that are clearly not movie titles
-    if (line.toLowerCase().includes('keine filme gefunden') ||
-        line.toLowerCase().includes('no movies found') ||
-        line.toLowerCase().includes('error') ||
-        line.startsWith('- ') && line.length < 5) {
-      continue;
+  // Every provider failed: surface the last error to the UI
+  throw lastError ?? new OcrUnavailableError();
+}
+
+// OCR overlapping tiles of the image and map their boxes back to full-image coordinates
+async function extractFromTiles(
+  imageUrl: string,
+  providers: OcrProvider[],
+  context: Pick<ChainContext, 'profile' | 'signal'>,
+  tiling: TilingSettings
+): Promise<OcrDetection[][]> {
+  const { width, height } = await getImageSize(imageUrl);
+  const tiles = computeTileLayout(width, height, tiling.gridSize, tiling.overlap);
+  console.log(`🧩 Running tiled OCR on ${tiles.length} tiles...`);
+
+  return mapWithConcurrency(tiles, tiling.concurrency, async (tile, index) => {
+    try {
+      throwIfAborted(context.signal);
+      const tileUrl = await cropImageRegion(imageUrl, tile);
+      const { detections } = await runProviderChain(tileUrl, providers, {
+        profile: context.profile,
+        minExpectedTitles: 0,
+        signal: context.signal,
+      });
+      return detections.map(detection => ({
+        ...detection,
+        box: detection.box ? mapTileBoxToImage(detection.box, tile) : undefined,
+      }));
+    } catch (error) {
+      if (isCancelledError(error)) throw new OcrCancelledError();
+
+      // A failed tile should not discard the titles found elsewhere
+      console.warn(`OCR for tile ${index + 1} failed:`, error);
+      return [];
     }
+  });
+}
 
-    // Remove common prefixes that Gemini might add
-    let cleanLine = line
-      .replace(/^[-•*]\s*/, '') // Remove bullet points
-      .replace(/^\d+\.\s*/, '') // Remove numbered lists
-      .replace(/^["']|["']$/g, '') // Remove quotes
-      .trim();
+export const extractTextFromImage = async (
+  originalImageUrl: string,
+  options: OcrRequestOptions = {}
+): Promise<OcrResult> => {
+  const { signal } = options;
+  const chain = getProviderChain(options.provider);
+  const usableProviders = chain.filter(provider => provider.isAvailable());
 
-    if (cleanLine.length >= 2) {
-      titles.push(cleanLine);
-    }
+  if (usableProviders.length === 0) {
+    throw new OcrUnavailableError();
   }
 
-  return titles;
-}
-
-// Extract year from movie title
-export const extractYearFromTitle = (title: string): { title: string; year?: number } => {
-  const yearMatch = title.match(/\((\d{4})\)\s*$/);
-  if (yearMatch) {
-    const year = parseInt(yearMatch[1]);
-    const titleWithoutYear = title.replace(/\s*\(\d{4}\)\s*$/, '').trim();
-    return { title: titleWithoutYear, year };
+  // Downscale, deskew and clean up the image once for all providers
+  const imageUrl = await prepareImageForOcr(originalImageUrl, options.crop);
+  if (signal?.aborted) throw new OcrCancelledError();
+
+  const { tiling, scanProfile } = getSettings();
+  const profile = getScanProfile(options.profileId ?? scanProfile);
+  const tilingMode = options.allowTiling === false ? 'off' : tiling.mode;
+
+  // The full frame catches titles that would be cut by tile borders
+  const { detections, model, provider, fromCache } = await runProviderChain(imageUrl, usableProviders, {
+    profile,
+    minExpectedTitles: options.escalateOnFewTitles === false ? 0 : profile.minExpectedTitles,
+    signal,
+    onDetection: options.onDetection,
+    onStreamRollback: options.onStreamRollback,
+  });
+
+  const isDense = detections.length >= DENSE_IMAGE_TITLE_COUNT;
+  if (tilingMode === 'off' || (tilingMode === 'auto' && !isDense)) {
+    return {
+      ...guardDetections(detections),
+      imageUrl,
+      provider: provider.id,
+      model,
+      profile: profile.id,
+      usedFallback: provider !== chain[0],
+      tileCount: 0,
+      fromCache,
+    };
   }
-  return { title: title.trim() };
-};
 
-export const cleanMovieTitle = (title: string): string => {
-  // Clean up movie title text - BEHALT Jahreszahlen in Klammern!
-  return title
-    // Remove unwanted characters but keep letters (including Umlaute), numbers, spaces, hyphens, colons, and parentheses
-    // \p{L} matches any Unicode letter, \p{N} matches any Unicode number
-    .replace(/[^\p{L}\p{N}\s\-:\(\)]/gu, ' ')
-    // Normalize whitespace
-    .replace(/\s+/g, ' ')
-    .trim();
+  const tileDetections = await extractFromTiles(imageUrl, usableProviders, { profile, signal }, tiling);
+  const merged = finalizeDetections(mergeTileDetections([detections, ...tileDetections]));
+  console.log(`🧩 Tiled OCR: ${detections.length} titles in full frame, ${merged.length} after merging tiles`);
+
+  return {
+    ...guardDetections(merged),
+    imageUrl,
+    provider: provider.id,
+    model,
+    profile: profile.id,
+    usedFallback: provider !== chain[0],
+    tileCount: tileDetections.length,
+    fromCache,
+  };
 };
@@ -0,0 +1,113 @@
+import type { BoundingBox, OcrDetection } from '@/types/ocr';
+import { normalizeTitleForMatching, isSameTitle } from '@/lib/titleMatching';
+
+// Splitting dense images into overlapping tiles and merging the per-tile detections
+
+// Two boxes with at least this overlap (relative to the smaller box) show the same text
+const BOX_OVERLAP_THRESHOLD = 0.5;
+
+// Build a grid of overlapping tiles; the longer image edge gets `gridSize` tiles
+export function computeTileLayout(
+  imageWidth: number,
+  imageHeight: number,
+  gridSize: number,
+  overlap: number
+): BoundingBox[] {
+  const isLandscape = imageWidth >= imageHeight;
+  const aspect = isLandscape ? imageHeight / imageWidth : imageWidth / imageHeight;
+  const shortSideTiles = Math.max(1, Math.round(gridSize * aspect));
+  const columns = isLandscape ? gridSize : shortSideTiles;
+  const rows = isLandscape ? shortSideTiles : gridSize;
+
+  const tiles: BoundingBox[] = [];
+  const tileWidth = Math.min(1, 1 / columns + overlap);
+  const tileHeight = Math.min(1, 1 / rows + overlap);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      // Spread tiles evenly so the first starts at 0 and the last ends at 1
+      const x = columns === 1 ? 0 : (column * (1 - tileWidth)) / (columns - 1);
+      const y = rows === 1 ? 0 : (row * (1 - tileHeight)) / (rows - 1);
+      tiles.push({ x, y, width: tileWidth, height: tileHeight });
+    }
+  }
+
+  return tiles;
+}
+
+// Convert a box relative to a tile into a box relative to the full image
+export function mapTileBoxToImage(box: BoundingBox, tile: BoundingBox): BoundingBox {
+  return {
+    x: tile.x + box.x * tile.width,
+    y: tile.y + box.y * tile.height,
+    width: box.width * tile.width,
+    height: box.height * tile.height,
+  };
+}
+
+// Intersection area divided by the area of the smaller box
+function overlapRatio(a: BoundingBox, b: BoundingBox): number {
+  const intersectionWidth = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const intersectionHeight = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (intersectionWidth <= 0 || intersectionHeight <= 0) return 0;
+
+  const smallerArea = Math.min(a.width * a.height, b.width * b.height);
+  return smallerArea > 0 ? (intersectionWidth * intersectionHeight) / smallerArea : 0;
+}
+
+function unionBox(a: BoundingBox, b: BoundingBox): BoundingBox {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// A title cut at a tile border is a prefix/suffix of the full title at the same position
+function isTruncatedVariant(a: string, b: string): boolean {
+  const normalizedA = normalizeTitleForMatching(a);
+  const normalizedB = normalizeTitleForMatching(b);
+  return normalizedA.length > 0 && normalizedB.length > 0 &&
+    (normalizedA.includes(normalizedB) || normalizedB.includes(normalizedA));
+}
+
+function isDuplicate(a: OcrDetection, b: OcrDetection): boolean {
+  if (a.box && b.box && overlapRatio(a.box, b.box) >= BOX_OVERLAP_THRESHOLD) {
+    return isSameTitle(a.title, b.title) || isTruncatedVariant(a.title, b.title);
+  }
+  // Without overlapping regions only near-identical titles are merged
+  return isSameTitle(a.title, b.title);
+}
+
+// Prefer the longer (non-truncated) title and the more confident hints
+function mergePair(a: OcrDetection, b: OcrDetection): OcrDetection {
+  const [primary, secondary] = a.title.length >= b.title.length ? [a, b] : [b, a];
+  return {
+    ...secondary,
+    ...primary,
+    year: primary.year ?? secondary.year,
+    season: primary.season ?? secondary.season,
+    originalTitle: primary.originalTitle ?? secondary.originalTitle,
+    confidence: Math.max(primary.confidence ?? 0, secondary.confidence ?? 0) || undefined,
+    box: primary.box && secondary.box ? unionBox(primary.box, secondary.box) : primary.box ?? secondary.box,
+  };
+}
+
+// Merge detections from the full frame and all tiles, de-duplicating titles seen in overlaps
+export function mergeTileDetections(detectionGroups: OcrDetection[][]): OcrDetection[] {
+  const merged: OcrDetection[] = [];
+
+  for (const detection of detectionGroups.flat()) {
+    const duplicateIndex = merged.findIndex(existing => isDuplicate(existing, detection));
+    if (duplicateIndex >= 0) {
+      merged[duplicateIndex] = mergePair(merged[duplicateIndex], detection);
+    } else {
+      merged.push(detection);
+    }
+  }
+
+  return merged;
+}
@@ -1,7 +1,9 @@
 import type { OmdbMovieResponse, OmdbError, MovieRating } from '@/types/omdb';
+import { parseRetryAfter, RateLimitError, scheduleRequest } from '@/lib/requestScheduler';
+import { cachedRequest } from '@/services/httpCacheService';
+import { getApiBaseUrl } from '@/services/apiEndpointService';
 
-// OMDb API Configuration
-const OMDB_BASE_URL = 'https://www.omdbapi.com/';
+// OMDb API Configuration (the base URL comes from the settings)
 const OMDB_API_KEY = import.meta.env.VITE_OMDB_API_KEY;
 
 if (!OMDB_API_KEY) {
@@ -13,7 +15,7 @@ async function omdbFetch<T>(
   endpoint: string,
   params?: Record<string, string>
 ): Promise<T> {
-  const url = new URL(OMDB_BASE_URL);
+  const url = new URL(`${getApiBaseUrl('omdb')}/`);
 
   // Add API key
   url.searchParams.set('apikey', OMDB_API_KEY);
@@ -30,8 +32,16 @@ async function omdbFetch<T>(
     url.searchParams.set('i', endpoint); // For IMDb ID queries
   }
 
+  // Responses come from the persistent cache where possible
+  const cacheParams = Object.fromEntries(url.searchParams);
+  return cachedRequest('omdb', '', cacheParams, () =>
+    scheduleRequest('omdb', () => performOmdbRequest<T>(url.toString()))
+  );
+}
+
+async function performOmdbRequest<T>(requestUrl: string): Promise<T> {
   try {
-    const response = await fetch(url.toString());
+    const response = await fetch(requestUrl);
 
     if (!response.ok) {
       // Handle specific HTTP status codes
@@ -39,7 +49,8 @@ async function omdbFetch<T>(
         throw new Error('OMDb Service Unavailable (503). Die API ist vorübergehend nicht erreichbar.');
       }
       if (response.status === 429) {
-        throw new Error('OMDb Rate Limit erreicht (429). Zu viele Anfragen.');
+        // The scheduler pauses OMDb and retries with capped backoff
+        throw new RateLimitError('omdb', parseRetryAfter(response.headers.get('Retry-After')));
       }
       if (response.status >= 500) {
         throw new Error(`OMDb Server Error (${response.status}). Bitte später versuchen.`);
@@ -122,25 +133,9 @@ export async function getImdbRatingByImdbId(imdbId: string): Promise<MovieRating
 export async function getImdbRatingsForIds(
   imdbIds: string[]
 ): Promise<MovieRating[]> {
-  const results: MovieRating[] = [];
-
-  // Process in batches to avoid rate limits
-  const batchSize = 5; // OMDb has more generous limits than TMDB
-  for (let i = 0; i < imdbIds.length; i += batchSize) {
-    const batch = imdbIds.slice(i, i + batchSize);
-
-    const batchPromises = batch.map(id => getImdbRatingByImdbId(id));
-    const batchResults = await Promise.all(batchPromises);
-
-    results.push(...batchResults.filter((result): result is MovieRating => result !== null));
-
-    // Small delay between batches to be respectful to the API
-    if (i + batchSize < imdbIds.length) {
-      await new Promise(resolve => setTimeout(resolve, 150));
-    }
-  }
-
-  return results;
+  // The request scheduler keeps the OMDb rate limit, so all ids can start at once
+  const results = await Promise.all(imdbIds.map(id => getImdbRatingByImdbId(id)));
+  return results.filter((result): result is MovieRating => result !== null);
 }
 
 // Search movies by title (alternative to TMDB if needed)
@@ -0,0 +1,111 @@
+import type { AppSettings } from '@/types/settings';
+import { DEFAULT_SCAN_PROFILE_ID } from '@/lib/scanProfiles';
+
+// Settings are stored locally so they survive app restarts
+const SETTINGS_STORAGE_KEY = 'filmScanner.settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  ocrProvider: 'auto',
+  ocrRequest: {
+    timeoutMs: 30000,
+    maxRetries: 2,
+  },
+  gemini: {
+    models: ['gemini-2.5-flash-lite', 'gemini-2.5-flash'],
+    // Dense sources need room for many titles in the JSON answer
+    generation: {
+      general: { temperature: 0.1, maxOutputTokens: 2048 },
+      streaming: { temperature: 0.1, maxOutputTokens: 4096 },
+      shelf: { temperature: 0.1, maxOutputTokens: 4096 },
+      poster: { temperature: 0.1, maxOutputTokens: 1024 },
+      tvGuide: { temperature: 0.1, maxOutputTokens: 4096 },
+    },
+  },
+  preprocessing: {
+    enabled: true,
+    maxEdge: 1600,
+    deskew: true,
+    enhanceContrast: true,
+    askForCrop: false,
+  },
+  tiling: {
+    mode: 'auto',
+    gridSize: 2,
+    overlap: 0.15,
+    concurrency: 2,
+  },
+  cacheOcrResults: true,
+  scanProfile: DEFAULT_SCAN_PROFILE_ID,
+  locale: {
+    language: 'de-DE',
+    fallbackLanguages: ['en-US'],
+    region: 'DE',
+  },
+  apiBaseUrls: {
+    tmdb: '',
+    omdb: '',
+    gemini: '',
+  },
+};
+
+type SettingsListener = (settings: AppSettings) => void;
+
+let currentSettings: AppSettings | null = null;
+const listeners = new Set<SettingsListener>();
+
+// Read persisted settings and merge them with defaults (new keys get default values)
+function readStoredSettings(): AppSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return { ...DEFAULT_SETTINGS };
+
+    const parsed = JSON.parse(stored) as Partial<AppSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      ocrRequest: { ...DEFAULT_SETTINGS.ocrRequest, ...parsed.ocrRequest },
+      gemini: {
+        ...DEFAULT_SETTINGS.gemini,
+        ...parsed.gemini,
+        generation: { ...DEFAULT_SETTINGS.gemini.generation, ...parsed.gemini?.generation },
+      },
+      preprocessing: { ...DEFAULT_SETTINGS.preprocessing, ...parsed.preprocessing },
+      tiling: { ...DEFAULT_SETTINGS.tiling, ...parsed.tiling },
+      locale: { ...DEFAULT_SETTINGS.locale, ...parsed.locale },
+      apiBaseUrls: { ...DEFAULT_SETTINGS.apiBaseUrls, ...parsed.apiBaseUrls },
+    };
+  } catch (error) {
+    console.warn('Failed to read stored settings, using defaults:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+// Get current settings (cached after first read)
+export function getSettings(): AppSettings {
+  if (!currentSettings) {
+    currentSettings = readStoredSettings();
+  }
+  return currentSettings;
+}
+
+// Update settings partially and notify subscribers
+export function updateSettings(patch: Partial<AppSettings>): AppSettings {
+  currentSettings = { ...getSettings(), ...patch };
+
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(currentSettings));
+  } catch (error) {
+    console.warn('Failed to persist settings:', error);
+  }
+
+  listeners.forEach(listener => listener(currentSettings!));
+  return currentSettings;
+}
+
+// Subscribe to settings changes, returns an unsubscribe function
+export function subscribeToSettings(listener: SettingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -5,49 +5,96 @@ import type {
   TMDBExternalIds,
   TMDBError,
   MovieWithImdbId,
-  TMDBSearchOptions
+  TMDBSearchOptions,
+  TitleLookupOptions,
+  CandidateScoringHints,
+  TmdbRequestStats,
+  MatchCandidate,
+  TitleVariant,
+  TMDBWatchProvidersResponse,
+  WatchAvailability,
+  WatchOfferType
 } from '@/types/tmdb';
-
-// TMDB API Configuration
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3';
+import type { OcrDetection } from '@/types/ocr';
+import { getScanProfile } from '@/lib/scanProfiles';
+import { normalizeTitleForMatching, ocrTitleSimilarity } from '@/lib/titleMatching';
+import { parseRetryAfter, RateLimitError, scheduleRequest } from '@/lib/requestScheduler';
+import { cachedRequest } from '@/services/httpCacheService';
+import { getSettings } from '@/services/settingsService';
+import { getApiBaseUrl } from '@/services/apiEndpointService';
+import { getFallbackLanguages } from '@/lib/locale';
+
+// TMDB API Configuration (the base URL comes from the settings)
 const TMDB_API_KEY = import.meta.env.VITE_TMDB_API_KEY;
+// v4 read access token; preferred over the v3 key when both are set
+const TMDB_ACCESS_TOKEN = import.meta.env.VITE_TMDB_ACCESS_TOKEN;
+const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p';
 
-if (!TMDB_API_KEY) {
-  console.warn('VITE_TMDB_API_KEY not found. TMDB integration will not work.');
+if (!TMDB_API_KEY && !TMDB_ACCESS_TOKEN) {
+  console.warn('Neither VITE_TMDB_ACCESS_TOKEN nor VITE_TMDB_API_KEY found. TMDB integration will not work.');
 }
 
-// Generic TMDB API fetch function with error handling
+// Language and region come from the settings unless a caller passes its own
+const getLocale = () => getSettings().locale;
+
+// Identical requests running at the same time share one network call
+const inFlightRequests = new Map<string, Promise<unknown>>();
+
+// Generic TMDB API fetch function with error handling; `stats` counts the network requests of one title lookup.
+// Responses come from the persistent cache where possible.
 async function tmdbFetch<T>(
   endpoint: string,
-  params?: Record<string, string>
+  params: Record<string, string> = {},
+  stats?: TmdbRequestStats
 ): Promise<T> {
-  const url = new URL(`${TMDB_BASE_URL}${endpoint}`);
+  return cachedRequest('tmdb', endpoint, params, () => fetchFromTmdb<T>(endpoint, params, stats));
+}
 
-  // Add API key as query parameter (fallback for v3 auth)
-  url.searchParams.set('api_key', TMDB_API_KEY);
+function fetchFromTmdb<T>(
+  endpoint: string,
+  params: Record<string, string>,
+  stats?: TmdbRequestStats
+): Promise<T> {
+  const url = new URL(`${getApiBaseUrl('tmdb')}${endpoint}`);
+
+  // Add API key as query parameter (fallback for v3 auth, the token goes into the header)
+  if (!TMDB_ACCESS_TOKEN) {
+    url.searchParams.set('api_key', TMDB_API_KEY);
+  }
 
   // Add additional params
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      url.searchParams.set(key, value);
-    });
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.set(key, value);
+  });
+
+  const requestUrl = url.toString();
+  const pending = inFlightRequests.get(requestUrl);
+  if (pending) {
+    if (stats) stats.sharedRequests++;
+    return pending as Promise<T>;
   }
 
+  if (stats) stats.requests++;
+  const request = scheduleRequest('tmdb', () => performTmdbRequest<T>(requestUrl))
+    .finally(() => inFlightRequests.delete(requestUrl));
+  inFlightRequests.set(requestUrl, request);
+  return request;
+}
+
+async function performTmdbRequest<T>(requestUrl: string): Promise<T> {
   try {
-    const response = await fetch(url.toString(), {
+    const response = await fetch(requestUrl, {
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
+        ...(TMDB_ACCESS_TOKEN && { 'Authorization': `Bearer ${TMDB_ACCESS_TOKEN}` }),
       },
     });
 
     if (!response.ok) {
       if (response.status === 429) {
-        // Rate limit exceeded - wait and retry
-        const retryAfter = response.headers.get('Retry-After');
-        const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 1000;
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        return tmdbFetch<T>(endpoint, params);
+        // Rate limit exceeded - the scheduler pauses TMDB and retries with capped backoff
+        throw new RateLimitError('tmdb', parseRetryAfter(response.headers.get('Retry-After')));
       }
 
       const errorData: TMDBError = await response.json().catch(() => ({
@@ -97,25 +144,6 @@ function createSearchVariations(query: string): string[] {
   return [...new Set(variations)]; // Remove duplicates
 }
 
-// Generate query variations for better matching
-function generateQueryVariations(query: string): string[] {
-  const normalized = normalizeText(query);
-  const variations = [normalized];
-
-  // Add version with different punctuation patterns
-  variations.push(normalized.replace(/\s+/g, ', ')); // "title, subtitle"
-  variations.push(normalized.replace(/\s+/g, ' - ')); // "title - subtitle"
-  variations.push(normalized.replace(/\s+/g, ': ')); // "title: subtitle"
-
-  // Add version without common prefixes/suffixes
-  const withoutPrefix = normalized.replace(/^(the|a|an)\s+/i, '');
-  if (withoutPrefix !== normalized) {
-    variations.push(withoutPrefix);
-  }
-
-  return [...new Set(variations)]; // Remove duplicates
-}
-
 // Unified candidate structure for all media types
 type Candidate = {
   id: number;
@@ -124,6 +152,7 @@ type Candidate = {
   date?: string;           // release_date or first_air_date
   popularity?: number;
   vote_count?: number;
+  poster_path?: string;
 };
 
 // Convert TMDB search results to unified candidates
@@ -136,7 +165,8 @@ function convertToCandidates(results: any[], mediaType: 'movie' | 'tv'): Candida
       : (result.name || result.original_name || ''),
     date: mediaType === 'movie' ? result.release_date : result.first_air_date,
     popularity: result.popularity,
-    vote_count: result.vote_count
+    vote_count: result.vote_count,
+    poster_path: result.poster_path ?? undefined
   }));
 }
 
@@ -152,10 +182,22 @@ function convertMultiToCandidates(results: any[]): Candidate[] {
         : (result.name || result.original_name || ''),
       date: result.media_type === 'movie' ? result.release_date : result.first_air_date,
       popularity: result.popularity,
-      vote_count: result.vote_count
+      vote_count: result.vote_count,
+      poster_path: result.poster_path ?? undefined
     }));
 }
 
+// Near-miss OCR readings ("Inceptlon") score close to an exact match, below that similarity nothing is added
+const MIN_TITLE_SIMILARITY = 0.75;
+// Words this similar count as the same word despite a misread character
+const MIN_WORD_SIMILARITY = 0.8;
+
+// Edit-distance component of the title score (0..100)
+function calculateSimilarityScore(query: string, title: string): number {
+  const similarity = ocrTitleSimilarity(query, title);
+  return similarity >= MIN_TITLE_SIMILARITY ? similarity * similarity * 100 : 0;
+}
+
 // Calculate match score for best result selection
 function calculateMatchScore(
   movie: TMDBMovieSearchResult,
@@ -180,6 +222,9 @@ function calculateMatchScore(
     score += 40;
   }
 
+  // A misread character must not cost the whole title bonus
+  score = Math.max(score, calculateSimilarityScore(query, title), calculateSimilarityScore(query, originalTitle));
+
   // Popularity and vote count as tie-breakers
   const popularityScore = Math.min(20, Math.log10((movie.popularity || 0) + 1) * 5);
   const voteScore = Math.min(30, Math.log10((movie.vote_count || 0) + 1) * 10);
@@ -208,11 +253,12 @@ function selectBestMatch(
 // Search for movies by title
 export async function searchMovies(
   query: string,
-  options: TMDBSearchOptions = {}
+  options: TMDBSearchOptions = {},
+  stats?: TmdbRequestStats
 ): Promise<TMDBMovieSearchResult[]> {
   const {
-    language = 'de-DE',
-    region = 'DE',
+    language = getLocale().language,
+    region = getLocale().region,
     year,
     includeAdult = false
   } = options;
@@ -229,15 +275,16 @@ export async function searchMovies(
     params.primary_release_year = year.toString();
   }
 
-  const response: TMDBSearchResponse = await tmdbFetch('/search/movie', params);
+  const response: TMDBSearchResponse = await tmdbFetch('/search/movie', params, stats);
   return response.results || [];
 }
 
 // Search for TV shows by title
 export async function searchTV(
   query: string,
-  language: string = 'de-DE',
-  year?: number
+  language: string = getLocale().language,
+  year?: number,
+  stats?: TmdbRequestStats
 ): Promise<Candidate[]> {
   const params: Record<string, string> = {
     query: query.trim(),
@@ -249,14 +296,15 @@ export async function searchTV(
     params.first_air_date_year = year.toString();
   }
 
-  const response: TMDBSearchResponse = await tmdbFetch('/search/tv', params);
+  const response: TMDBSearchResponse = await tmdbFetch('/search/tv', params, stats);
   return convertToCandidates(response.results || [], 'tv');
 }
 
 // Search across all media types (movie, tv, person)
 export async function searchMulti(
   query: string,
-  language: string = 'de-DE'
+  language: string = getLocale().language,
+  stats?: TmdbRequestStats
 ): Promise<Candidate[]> {
   const params: Record<string, string> = {
     query: query.trim(),
@@ -264,51 +312,191 @@ export async function searchMulti(
     page: '1'
   };
 
-  const response: TMDBSearchResponse = await tmdbFetch('/search/multi', params);
+  const response: TMDBSearchResponse = await tmdbFetch('/search/multi', params, stats);
   return convertMultiToCandidates(response.results || []);
 }
 
-// Get details with IMDb ID based on media type
-async function getDetailsWithImdbId(
-  candidate: Candidate,
-  language: string
-): Promise<{ imdb_id?: string; external_ids?: { imdb_id?: string } }> {
+type TmdbEntryDetails = {
+  title?: string;
+  name?: string;
+  release_date?: string;
+  first_air_date?: string;
+  poster_path?: string;
+  imdb_id?: string;
+  external_ids?: { imdb_id?: string };
+  // Movies list alternative titles under `titles`, TV shows under `results`
+  alternative_titles?: { titles?: TmdbAlternativeTitle[]; results?: TmdbAlternativeTitle[] };
+  translations?: { translations?: TmdbTranslation[] };
+};
+
+type TmdbAlternativeTitle = { iso_3166_1?: string; title?: string };
+type TmdbTranslation = { iso_3166_1?: string; iso_639_1?: string; data?: { title?: string; name?: string } };
+
+// One details call covers movies and TV shows. External ids, alternative titles and translations are
+// always appended, so the IMDb id lookup and the title variants share one (cached) request.
+function fetchTmdbEntry(mediaType: 'movie' | 'tv', tmdbId: number, language: string, stats?: TmdbRequestStats) {
+  return tmdbFetch<TmdbEntryDetails>(
+    `/${mediaType}/${tmdbId}`,
+    { language, append_to_response: 'external_ids,alternative_titles,translations' },
+    stats
+  );
+}
+
+// All other titles of an entry in any language, one per normalized spelling
+function extractTitleVariants(details: TmdbEntryDetails): TitleVariant[] {
+  const alternatives: TitleVariant[] = (details.alternative_titles?.titles ?? details.alternative_titles?.results ?? [])
+    .map(({ title, iso_3166_1 }) => ({ title: title ?? '', kind: 'alternative', country: iso_3166_1 }));
+  const translations: TitleVariant[] = (details.translations?.translations ?? [])
+    .map(({ data, iso_3166_1, iso_639_1 }) => ({
+      title: data?.title || data?.name || '',
+      kind: 'translation',
+      country: iso_3166_1,
+      language: iso_639_1,
+    }));
+
+  const seen = new Set([normalizeTitleForMatching(details.title || details.name || '')]);
+  return [...translations, ...alternatives].filter(variant => {
+    const key = normalizeTitleForMatching(variant.title);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+async function getTitleVariants(
+  mediaType: 'movie' | 'tv',
+  tmdbId: number,
+  language: string,
+  stats?: TmdbRequestStats
+): Promise<TitleVariant[]> {
   try {
-    if (candidate.media_type === 'movie') {
-      const details = await tmdbFetch<{ imdb_id?: string; external_ids?: { imdb_id?: string } }>(`/movie/${candidate.id}`, {
-        language,
-        append_to_response: 'external_ids'
-      });
-
-      // Debug logging
-      console.log('TMDB Movie Details for ID:', candidate.id);
-      console.log('Direct imdb_id:', details.imdb_id);
-      console.log('External IDs:', details.external_ids);
-
-      return details;
-    } else {
-      const details = await tmdbFetch<{ imdb_id?: string; external_ids?: { imdb_id?: string } }>(`/tv/${candidate.id}`, {
-        language,
-        append_to_response: 'external_ids'
-      });
-
-      // Debug logging
-      console.log('TMDB TV Details for ID:', candidate.id);
-      console.log('Direct imdb_id:', details.imdb_id);
-      console.log('External IDs:', details.external_ids);
-
-      return details;
-    }
+    return extractTitleVariants(await fetchTmdbEntry(mediaType, tmdbId, language, stats));
+  } catch (error) {
+    console.warn(`Could not load title variants for ${mediaType} ${tmdbId}:`, error);
+    return [];
+  }
+}
+
+const IMDB_ID_FALLBACK_LANGUAGE = 'en-US';
+
+const getDetailsImdbId = (details: TmdbEntryDetails) => details.imdb_id || details.external_ids?.imdb_id || null;
+
+// Localized details sometimes lack the IMDb id, the English entry is asked once before giving up
+async function resolveImdbId(
+  mediaType: 'movie' | 'tv',
+  tmdbId: number,
+  details: TmdbEntryDetails,
+  language: string,
+  stats?: TmdbRequestStats
+): Promise<string | null> {
+  const imdbId = getDetailsImdbId(details);
+  if (imdbId || language === IMDB_ID_FALLBACK_LANGUAGE) return imdbId;
+
+  try {
+    return getDetailsImdbId(await fetchTmdbEntry(mediaType, tmdbId, IMDB_ID_FALLBACK_LANGUAGE, stats));
+  } catch (error) {
+    console.warn(`Could not load ${IMDB_ID_FALLBACK_LANGUAGE} details for ${mediaType} ${tmdbId}:`, error);
+    return null;
+  }
+}
+
+// Title, year, poster and IMDb id of a known TMDB entry (e.g. for a manual correction)
+export async function getTmdbEntry(
+  mediaType: 'movie' | 'tv',
+  tmdbId: number,
+  language = getLocale().language
+): Promise<MatchCandidate & { imdbId: string | null }> {
+  const details = await fetchTmdbEntry(mediaType, tmdbId, language);
+  const date = details.release_date || details.first_air_date;
+  return {
+    tmdbId,
+    mediaType,
+    title: details.title || details.name || '',
+    year: date ? new Date(date).getFullYear() : undefined,
+    posterPath: details.poster_path ?? undefined,
+    imdbId: await resolveImdbId(mediaType, tmdbId, details, language),
+    score: 100,
+  };
+}
+
+type TmdbFindResponse = {
+  movie_results?: Array<{ id: number; title?: string; release_date?: string; poster_path?: string }>;
+  tv_results?: Array<{ id: number; name?: string; first_air_date?: string; poster_path?: string }>;
+};
+
+// Reverse lookup: the TMDB entry for an IMDb id, or null if TMDB doesn't know it
+export async function findByImdbId(imdbId: string, language = getLocale().language): Promise<MatchCandidate | null> {
+  const response = await tmdbFetch<TmdbFindResponse>(`/find/${imdbId}`, { external_source: 'imdb_id', language });
+  const [movie] = response.movie_results ?? [];
+  const [show] = response.tv_results ?? [];
+
+  const candidate: Candidate | null = movie
+    ? { id: movie.id, media_type: 'movie', title: movie.title ?? '', date: movie.release_date, poster_path: movie.poster_path ?? undefined }
+    : show
+      ? { id: show.id, media_type: 'tv', title: show.name ?? '', date: show.first_air_date, poster_path: show.poster_path ?? undefined }
+      : null;
+
+  return candidate && toMatchCandidate({ candidate, score: 100 });
+}
+
+// IMDb id of a TMDB entry
+export async function getImdbIdForTmdbEntry(
+  mediaType: 'movie' | 'tv',
+  tmdbId: number,
+  language = getLocale().language,
+  stats?: TmdbRequestStats
+): Promise<string | null> {
+  try {
+    const details = await fetchTmdbEntry(mediaType, tmdbId, language, stats);
+    return await resolveImdbId(mediaType, tmdbId, details, language, stats);
   } catch (error) {
-    console.error('Error fetching TMDB details for candidate:', candidate, error);
-    return {};
+    console.error(`Error fetching TMDB details for ${mediaType} ${tmdbId}:`, error);
+    return null;
   }
 }
 
+// User-facing origin of a title variant, e.g. "Übersetzung de-DE"
+export function describeTitleVariant(variant: TitleVariant): string {
+  const locale = [variant.language, variant.country].filter(Boolean).join('-');
+  return `${variant.kind === 'translation' ? 'Übersetzung' : 'Alternativtitel'}${locale ? ` ${locale}` : ''}`;
+}
+
+// Poster thumbnail of a TMDB entry
+export const getPosterUrl = (posterPath: string, size: 'w92' | 'w154' | 'w342' = 'w92') =>
+  `${TMDB_IMAGE_BASE_URL}/${size}${posterPath}`;
+
+// Logo of a streaming service
+export const getProviderLogoUrl = (logoPath: string, size: 'w45' | 'w92' = 'w45') =>
+  `${TMDB_IMAGE_BASE_URL}/${size}${logoPath}`;
+
+const WATCH_OFFER_TYPES: WatchOfferType[] = ['flatrate', 'free', 'ads', 'rent', 'buy'];
+
+// Streaming, rental and purchase offers of a TMDB entry in one region. The response covers all
+// regions at once, so a changed region setting is served from the same cached request.
+export async function getWatchProviders(
+  mediaType: 'movie' | 'tv',
+  tmdbId: number,
+  region = getLocale().region
+): Promise<WatchAvailability> {
+  const response = await tmdbFetch<TMDBWatchProvidersResponse>(`/${mediaType}/${tmdbId}/watch/providers`);
+  const regional = response.results?.[region];
+
+  const offers: WatchAvailability['offers'] = {};
+  for (const type of WATCH_OFFER_TYPES) {
+    const providers = regional?.[type];
+    if (!providers?.length) continue;
+    offers[type] = [...providers]
+      .sort((a, b) => a.display_priority - b.display_priority)
+      .map(provider => ({ id: provider.provider_id, name: provider.provider_name, logoPath: provider.logo_path }));
+  }
+
+  return { region, link: regional?.link ?? null, offers };
+}
+
 // Get movie details including IMDb ID
 export async function getMovieDetails(
   movieId: number,
-  language = 'de-DE'
+  language = getLocale().language
 ): Promise<TMDBMovieDetails> {
   return tmdbFetch<TMDBMovieDetails>(`/movie/${movieId}`, {
     language,
@@ -321,11 +509,8 @@ export async function getMovieExternalIds(movieId: number): Promise<TMDBExternal
   return tmdbFetch<TMDBExternalIds>(`/movie/${movieId}/external_ids`);
 }
 
-// Enhanced scoring for unified candidates with better disambiguation
-function calculateCandidateScore(candidate: Candidate, queryTitle: string): number {
-  const query = normalizeText(queryTitle);
-  const title = normalizeText(candidate.title);
-
+// How well the title itself matches, without any popularity or hint bonuses
+function calculateTitleScore(query: string, title: string): number {
   let score = 0;
 
   // Exact matches get highest score
@@ -341,11 +526,31 @@ function calculateCandidateScore(candidate: Candidate, queryTitle: string): numb
     score += 40;
   }
 
+  // A misread character must not cost the whole title bonus
+  return Math.max(score, calculateSimilarityScore(query, title));
+}
+
+type CandidateScore = { score: number; titleScore: number };
+
+// Enhanced scoring for unified candidates with better disambiguation
+function calculateCandidateScore(
+  candidate: Candidate,
+  queryTitle: string,
+  hints: CandidateScoringHints = {}
+): CandidateScore {
+  const query = normalizeText(queryTitle);
+  const title = normalizeText(candidate.title);
+
+  const titleScore = calculateTitleScore(query, title);
+  let score = titleScore;
+
   // Word-level matching for better precision
   const queryWords = query.split(/\s+/).filter(word => word.length > 2);
   const titleWords = title.split(/\s+/).filter(word => word.length > 2);
   const matchingWords = queryWords.filter(qWord =>
-    titleWords.some(tWord => tWord.includes(qWord) || qWord.includes(tWord))
+    titleWords.some(tWord =>
+      tWord.includes(qWord) || qWord.includes(tWord) || ocrTitleSimilarity(qWord, tWord) >= MIN_WORD_SIMILARITY
+    )
   );
 
   // Bonus for high word match ratio
@@ -367,190 +572,293 @@ function calculateCandidateScore(candidate: Candidate, queryTitle: string): numb
     const currentYear = new Date().getFullYear();
     const yearsOld = currentYear - releaseYear;
 
-    // Bonus for films from last 5 years, penalty for very old films
-    if (yearsOld <= 5) {
-      recencyBonus = 15;
+    if (hints.releaseEra === 'older') {
+      // Physical media shelves: older releases are the norm, don't punish them
+      if (yearsOld > 10) {
+        recencyBonus = 10;
+      } else if (yearsOld <= 2) {
+        recencyBonus = -5;
+      }
+    } else if (yearsOld <= 5) {
+      // Bonus for films from last 5 years, penalty for very old films
+      recencyBonus = hints.releaseEra === 'recent' ? 25 : 15;
     } else if (yearsOld > 20) {
       recencyBonus = -10;
     }
   }
 
-  return score + popularityScore + voteScore + recencyBonus;
+  // Media type hints: what the OCR saw counts more than the profile's preference
+  let mediaTypeBonus = 0;
+  if (hints.mediaType) {
+    mediaTypeBonus = candidate.media_type === hints.mediaType ? 15 : 0;
+  } else if (hints.preferredMediaType) {
+    mediaTypeBonus = candidate.media_type === hints.preferredMediaType ? 10 : 0;
+  }
+
+  // A visible year is a strong hint, e.g. to tell a remake from the original
+  let yearBonus = 0;
+  if (hints.year && candidate.date) {
+    const yearDifference = Math.abs(new Date(candidate.date).getFullYear() - hints.year);
+    yearBonus = yearDifference === 0 ? 20 : yearDifference === 1 ? 10 : -15;
+  }
+
+  return { score: score + popularityScore + voteScore + recencyBonus + mediaTypeBonus + yearBonus, titleScore };
 }
 
-// Select best candidate from unified results
-function selectBestCandidate(candidates: Candidate[], queryTitle: string): Candidate | null {
-  if (candidates.length === 0) return null;
+// Candidates below this score are never accepted
+const MIN_MATCH_SCORE = 20;
+// A candidate with this score ends the lookup without searching further variations or languages
+const CONFIDENT_MATCH_SCORE = 80;
+// Popularity and hint bonuses alone can reach the confident score, so the title must match at least like a prefix
+const MIN_CONFIDENT_TITLE_SCORE = 60;
+// Details calls for the best candidates until one has an IMDb id
+const MAX_DETAIL_LOOKUPS = 2;
+// Ranked candidates returned for switching an ambiguous match
+const MAX_RETURNED_CANDIDATES = 5;
+// Without a confident match, the best candidates are re-scored against their alternative titles and translations
+const MAX_VARIANT_LOOKUPS = 3;
+
+type SearchKind = 'movie' | 'tv' | 'multi';
+
+// One step of the lookup: all its searches run in parallel
+interface SearchRound {
+  queries: string[];
+  kinds: SearchKind[];
+  language: string;
+  year?: number;
+}
 
-  const scored = candidates.map(candidate => ({
-    candidate,
-    score: calculateCandidateScore(candidate, queryTitle)
-  }));
+type ScoredCandidate = CandidateScore & { candidate: Candidate; matchedVariant?: TitleVariant };
 
-  scored.sort((a, b) => b.score - a.score);
+const isConfidentMatch = (entry: ScoredCandidate) =>
+  entry.score >= CONFIDENT_MATCH_SCORE && entry.titleScore >= MIN_CONFIDENT_TITLE_SCORE;
 
-  // Return best match if score is above threshold
-  return scored[0].score > 20 ? scored[0].candidate : null;
+// Search rounds from precise to broad: the OCR title (with year) first, then all variations,
+// then the fallback languages in order, and a multi search as the last resort
+function buildSearchRounds(title: string, options: TitleLookupOptions): SearchRound[] {
+  const locale = getLocale();
+  const { year, mediaType, originalTitle, language = locale.language } = options;
+  const fallbackLanguages = getFallbackLanguages({
+    ...locale,
+    language,
+    fallbackLanguages: options.fallbackLanguages ?? locale.fallbackLanguages,
+  });
+  const searchVariations = createSearchVariations(title);
+  // A visible original title is a strong hint, try it right after the OCR title
+  const originalTitleVariations = originalTitle ? createSearchVariations(originalTitle) : [];
+  const primaryQueries = [...new Set([title, ...(originalTitle ? [originalTitle] : [])])];
+  const variationQueries = [...new Set([...searchVariations, ...originalTitleVariations])]
+    .filter(query => !primaryQueries.includes(query));
+
+  const rounds: SearchRound[] = [
+    // A type seen by the OCR narrows the first round
+    { queries: primaryQueries, kinds: mediaType ? [mediaType] : ['movie', 'tv'], language, year },
+  ];
+  if (year || mediaType) {
+    rounds.push({ queries: primaryQueries, kinds: ['movie', 'tv'], language });
+  }
+  if (variationQueries.length > 0) {
+    rounds.push({ queries: variationQueries, kinds: ['movie', 'tv'], language });
+  }
+  for (const fallbackLanguage of fallbackLanguages) {
+    rounds.push({ queries: primaryQueries, kinds: ['movie', 'tv'], language: fallbackLanguage });
+  }
+  rounds.push({ queries: [title], kinds: ['multi'], language });
+  return rounds;
 }
 
-// Main function: Get IMDb ID for a movie title with enhanced search cascade
-export async function getImdbIdForTitle(
-  title: string,
-  options: TMDBSearchOptions & { year?: number } = {}
-): Promise<MovieWithImdbId | null> {
-  const normalizedTitle = normalizeText(title);
-  const searchVariations = createSearchVariations(title);
-  const queryVariations = generateQueryVariations(title); // Keep for fallback
-  const allQueries = [...new Set([...searchVariations, ...queryVariations])];
-  const { language = 'de-DE', year } = options;
-
-  console.log('🎯 TMDB Search for:', title, 'Year:', year);
-
-  // Language fallback: de-DE → en-US
-  const languages = ['de-DE', 'en-US'];
-
-  for (const lang of languages) {
-    // Search cascade: movie → tv → multi
-    const searchTypes = [
-      { name: 'movie', func: (q: string) => searchMovies(q, { ...options, language: lang }) },
-      { name: 'tv', func: (q: string) => searchTV(q, lang, year) },
-      { name: 'multi', func: (q: string) => searchMulti(q, lang) }
-    ];
-
-    for (const searchType of searchTypes) {
-      // Try all search variations (preserving Umlaute first, then normalized)
-      for (const query of allQueries) {
-        try {
-          let candidates: Candidate[] = [];
-
-          if (searchType.name === 'movie') {
-            // Convert movie results to candidates
-            const results = await searchType.func(query) as TMDBMovieSearchResult[];
-            candidates = convertToCandidates(results, 'movie');
-          } else {
-            // TV and Multi already return candidates
-            candidates = await searchType.func(query) as Candidate[];
-          }
-
-          const bestCandidate = selectBestCandidate(candidates, normalizedTitle);
-
-          if (bestCandidate) {
-            // Get details with IMDb ID based on media type
-            const details = await getDetailsWithImdbId(bestCandidate, lang);
-            let imdbId = details.imdb_id ?? details.external_ids?.imdb_id ?? null;
-
-            // Fallback: Try to get external IDs separately if not found in details
-            if (!imdbId && bestCandidate.media_type === 'movie') {
-              try {
-                const externalIds = await getMovieExternalIds(bestCandidate.id);
-                imdbId = externalIds.imdb_id ?? null;
-                console.log('Fallback external IDs for movie:', bestCandidate.id, 'IMDb ID:', imdbId);
-              } catch (error) {
-                console.warn('Failed to get external IDs for movie:', bestCandidate.id, error);
-              }
-            }
-
-            // Additional fallback: Try English version if German failed
-            if (!imdbId && lang === 'de-DE') {
-              try {
-                console.log('Trying English fallback for:', bestCandidate.title);
-                const englishDetails = await getDetailsWithImdbId(bestCandidate, 'en-US');
-                imdbId = englishDetails.imdb_id ?? englishDetails.external_ids?.imdb_id ?? null;
-                console.log('English fallback result:', imdbId);
-              } catch (error) {
-                console.warn('English fallback failed:', error);
-              }
-            }
-
-            if (imdbId) {
-              const matchScore = calculateCandidateScore(bestCandidate, normalizedTitle);
-              const confidence = matchScore >= 80 ? 'high' : matchScore >= 40 ? 'medium' : 'low';
-
-              console.log('✅ Successfully found IMDb ID for:', bestCandidate.title, 'ID:', imdbId);
-
-              return {
-                title: bestCandidate.title,
-                imdbId,
-                tmdbId: bestCandidate.id,
-                confidence,
-                year: bestCandidate.date ? new Date(bestCandidate.date).getFullYear() : undefined
-              };
-            } else {
-              console.warn('❌ No IMDb ID found for candidate:', bestCandidate.title, 'Details:', details);
-            }
-          }
-        } catch (error) {
-          console.warn(`Search failed for ${searchType.name} in ${lang}:`, error);
-          continue;
-        }
-      }
+async function runSearch(
+  kind: SearchKind,
+  query: string,
+  round: SearchRound,
+  searchOptions: TMDBSearchOptions,
+  stats: TmdbRequestStats
+): Promise<Candidate[]> {
+  try {
+    switch (kind) {
+      case 'movie':
+        return convertToCandidates(
+          await searchMovies(query, { ...searchOptions, language: round.language, year: round.year }, stats),
+          'movie'
+        );
+      case 'tv':
+        return await searchTV(query, round.language, round.year, stats);
+      case 'multi':
+        return await searchMulti(query, round.language, stats);
     }
+  } catch (error) {
+    console.warn(`Search failed for ${kind} "${query}" in ${round.language}:`, error);
+    return [];
   }
+}
 
-  return null; // No results found
+// Score against the OCR title and, if visible, the original title
+function scoreCandidate(candidate: Candidate, titles: string[], hints: CandidateScoringHints): CandidateScore {
+  return titles
+    .map(title => calculateCandidateScore(candidate, title, hints))
+    .reduce((best, current) => current.score > best.score ? current : best);
 }
 
-// Batch processing for multiple titles
-export async function getImdbIdsForTitles(
-  titles: string[],
-  options: TMDBSearchOptions = {}
-): Promise<MovieWithImdbId[]> {
-  const results: MovieWithImdbId[] = [];
+const getPoolKey = (candidate: Candidate) => `${candidate.media_type}:${candidate.id}`;
 
-  // Process in batches to avoid rate limits
-  const batchSize = 3;
-  for (let i = 0; i < titles.length; i += batchSize) {
-    const batch = titles.slice(i, i + batchSize);
+// The same TMDB entry found through several queries or languages keeps its best-scoring version
+function addToPool(pool: Map<string, ScoredCandidate>, candidates: Candidate[], titles: string[], hints: CandidateScoringHints) {
+  for (const candidate of candidates) {
+    const key = getPoolKey(candidate);
+    const scored = scoreCandidate(candidate, titles, hints);
+    const existing = pool.get(key);
+    if (!existing || scored.score > existing.score) {
+      pool.set(key, { candidate, ...scored });
+    }
+  }
+}
 
-    const batchPromises = batch.map(async (title) => {
-      // Extract year from title if present (e.g., "Inception (2010)" -> title: "Inception", year: 2010)
-      const { title: cleanTitle, year } = extractYearFromTitle(title);
+const rankCandidates = (pool: Map<string, ScoredCandidate>): ScoredCandidate[] =>
+  [...pool.values()].filter(entry => entry.score > MIN_MATCH_SCORE).sort((a, b) => b.score - a.score);
 
-      console.log('🔍 Processing title:', title, '-> Clean:', cleanTitle, 'Year:', year);
+// Localized covers often show a title the search result doesn't carry ("Stirb langsam" for "Die Hard"):
+// score the best candidates against every known title variant and keep the better score
+async function scoreTitleVariants(
+  pool: Map<string, ScoredCandidate>,
+  titles: string[],
+  hints: CandidateScoringHints,
+  language: string,
+  stats: TmdbRequestStats
+) {
+  const topEntries = [...pool.values()].sort((a, b) => b.score - a.score).slice(0, MAX_VARIANT_LOOKUPS);
+
+  await Promise.all(topEntries.map(async (entry) => {
+    const { candidate } = entry;
+    const variants = await getTitleVariants(candidate.media_type, candidate.id, language, stats);
+    let best = entry;
+
+    for (const variant of variants) {
+      const scored = scoreCandidate({ ...candidate, title: variant.title }, titles, hints);
+      if (scored.score > best.score) {
+        best = { candidate, ...scored, matchedVariant: variant };
+      }
+    }
 
-      // Try search WITH year first
-      if (year) {
-        console.log('🎯 Trying search WITH year:', cleanTitle, year);
-        const resultWithYear = await getImdbIdForTitle(cleanTitle, { ...options, year });
+    if (best !== entry) {
+      console.log(`🌐 "${candidate.title}" matched via title variant "${best.matchedVariant!.title}":`, Math.round(entry.score), '→', Math.round(best.score));
+      pool.set(getPoolKey(candidate), best);
+    }
+  }));
+}
 
-        if (resultWithYear) {
-          console.log('✅ Found with year:', resultWithYear.title);
-          return resultWithYear;
-        }
+const getReleaseYear = (candidate: Candidate) => candidate.date ? new Date(candidate.date).getFullYear() : undefined;
+
+const toMatchCandidate = ({ candidate, score, matchedVariant }: Omit<ScoredCandidate, 'titleScore'>): MatchCandidate => ({
+  tmdbId: candidate.id,
+  mediaType: candidate.media_type,
+  title: candidate.title,
+  year: getReleaseYear(candidate),
+  posterPath: candidate.poster_path,
+  score: Math.round(score),
+  matchedVariant,
+});
+
+// Main function: Get IMDb ID for a movie title.
+// Movie and TV searches run in parallel per round, all candidates are pooled and scored once,
+// and the lookup stops as soon as a confident match is found. Without one, title variants decide.
+export async function getImdbIdForTitle(
+  title: string,
+  options: TitleLookupOptions = {}
+): Promise<MovieWithImdbId | null> {
+  const { year, mediaType, originalTitle, preferredMediaType, releaseEra, fallbackLanguages, ...searchOptions } = options;
+  const scoringHints: CandidateScoringHints = { mediaType, preferredMediaType, releaseEra, year };
+  const scoringTitles = [normalizeText(title), ...(originalTitle ? [normalizeText(originalTitle)] : [])];
+  const detailsLanguage = searchOptions.language ?? getLocale().language;
+  const stats: TmdbRequestStats = { requests: 0, sharedRequests: 0 };
+  const pool = new Map<string, ScoredCandidate>();
+  const rounds = buildSearchRounds(title, options);
+  let roundsRun = 0;
+
+  console.log('🎯 TMDB Search for:', title, 'Year:', year, 'Type:', mediaType ?? preferredMediaType, 'Original:', originalTitle);
+
+  for (const round of rounds) {
+    roundsRun++;
+    const results = await Promise.all(
+      round.queries.flatMap(query => round.kinds.map(kind => runSearch(kind, query, round, searchOptions, stats)))
+    );
+    results.forEach(candidates => addToPool(pool, candidates, scoringTitles, scoringHints));
+
+    const [best] = rankCandidates(pool);
+    if (best && isConfidentMatch(best)) break;
+  }
 
-        console.log('❌ No results with year, trying WITHOUT year...');
-      }
+  const [bestBeforeVariants] = rankCandidates(pool);
+  if (!bestBeforeVariants || !isConfidentMatch(bestBeforeVariants)) {
+    await scoreTitleVariants(pool, scoringTitles, scoringHints, detailsLanguage, stats);
+  }
 
-      // Fallback: Search WITHOUT year
-      const resultWithoutYear = await getImdbIdForTitle(cleanTitle, options);
-      if (resultWithoutYear) {
-        console.log('✅ Found without year:', resultWithoutYear.title);
-      } else {
-        console.log('❌ No results found for:', cleanTitle);
-      }
+  let result: MovieWithImdbId | null = null;
+  const ranked = rankCandidates(pool);
 
-      return resultWithoutYear;
-    });
+  for (const scored of ranked.slice(0, MAX_DETAIL_LOOKUPS)) {
+    const { candidate, score, matchedVariant } = scored;
+    const imdbId = await getImdbIdForTmdbEntry(candidate.media_type, candidate.id, detailsLanguage, stats);
+    if (!imdbId) {
+      console.warn('❌ No IMDb ID found for candidate:', candidate.title);
+      continue;
+    }
 
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults.filter((result): result is MovieWithImdbId => result !== null));
+    console.log('✅ Successfully found IMDb ID for:', candidate.title, 'ID:', imdbId);
+    // The match leads the list, followed by the runners-up in score order
+    const runnersUp = ranked.filter(entry => entry !== scored).slice(0, MAX_RETURNED_CANDIDATES - 1);
+    result = {
+      title: candidate.title,
+      imdbId,
+      tmdbId: candidate.id,
+      mediaType: candidate.media_type,
+      confidence: isConfidentMatch(scored) ? 'high' : score >= 40 ? 'medium' : 'low',
+      year: getReleaseYear(candidate),
+      candidates: [scored, ...runnersUp].map(toMatchCandidate),
+      matchedVariant,
+      requestCount: stats.requests,
+    };
+    break;
+  }
+
+  console.log(
+    `📊 TMDB lookup for "${title}": ${stats.requests} requests (${stats.sharedRequests} shared),`,
+    `${roundsRun}/${rounds.length} rounds, ${pool.size} candidates`
+  );
+
+  return result;
+}
 
-    // Small delay between batches to be respectful to the API
-    if (i + batchSize < titles.length) {
-      await new Promise(resolve => setTimeout(resolve, 200));
+// Batch processing for multiple titles
+export async function getImdbIdsForTitles(
+  detections: OcrDetection[],
+  options: TMDBSearchOptions = {}
+): Promise<MovieWithImdbId[]> {
+  // The request scheduler keeps the TMDB rate limit, so all titles can start at once
+  const results = await Promise.all(detections.map(async (detection) => {
+    const { title: cleanTitle, year } = detection;
+    console.log('🔍 Processing title:', cleanTitle, 'Year:', year);
+
+    // The year narrows the first search round and is a scoring hint afterwards
+    const result = await getImdbIdForTitle(cleanTitle, { ...options, ...getLookupHints(detection), year });
+    if (!result) {
+      console.log('❌ No results found for:', cleanTitle);
     }
-  }
+    return result;
+  }));
 
-  return results;
+  return results.filter((result): result is MovieWithImdbId => result !== null);
 }
 
-// Extract year from movie title
-function extractYearFromTitle(title: string): { title: string; year?: number } {
-  const yearMatch = title.match(/\((\d{4})\)\s*$/);
-  if (yearMatch) {
-    const year = parseInt(yearMatch[1]);
-    const titleWithoutYear = title.replace(/\s*\(\d{4}\)\s*$/, '').trim();
-    return { title: titleWithoutYear, year };
-  }
-  return { title: title.trim() };
+// Map OCR detection and scan profile hints to TMDB lookup options (year is handled separately by callers)
+export function getLookupHints(
+  detection: OcrDetection
+): Pick<TitleLookupOptions, 'mediaType' | 'originalTitle' | 'preferredMediaType' | 'releaseEra'> {
+  const isSeries = detection.mediaType === 'series' || detection.season !== undefined;
+  const { matching } = getScanProfile(detection.profileId);
+  return {
+    mediaType: isSeries ? 'tv' : detection.mediaType === 'movie' ? 'movie' : undefined,
+    originalTitle: detection.originalTitle,
+    preferredMediaType: matching.preferredMediaType,
+    releaseEra: matching.releaseEra,
+  };
 }
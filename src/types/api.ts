@@ -0,0 +1,10 @@
+// API Client Types
+
+export type ApiProviderId = 'tmdb' | 'omdb' | 'gemini';
+
+// Token bucket and concurrency limits of one API provider
+export interface RateLimitConfig {
+  capacity: number; // burst size
+  refillPerSecond: number; // sustained request rate
+  maxConcurrent: number;
+}
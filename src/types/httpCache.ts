@@ -0,0 +1,24 @@
+// HTTP Response Cache Types
+import type { ApiProviderId } from '@/types/api';
+
+export interface HttpCacheEntry {
+  key: string; // provider + endpoint + sorted params (without API key)
+  provider: ApiProviderId;
+  data: unknown;
+  size: number; // approximate size of the JSON in bytes
+  storedAt: number;
+  freshUntil: number; // served without revalidation until then
+  staleUntil: number; // served while revalidating in the background until then, deleted afterwards
+  lastUsedAt: number;
+}
+
+// How long responses of an endpoint are fresh and how long a stale copy may still be served
+export interface HttpCachePolicy {
+  freshMs: number;
+  staleMs: number;
+}
+
+export interface HttpCacheStats {
+  entryCount: number;
+  approximateBytes: number;
+}
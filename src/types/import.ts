@@ -0,0 +1,17 @@
+// Batch Import Types
+
+// An image selected for import; the data is only read when it is its turn in the queue
+export interface ImportSource {
+  name: string;
+  readDataUrl: () => Promise<string>;
+}
+
+export type ImportItemStatus = 'queued' | 'processing' | 'done' | 'error';
+
+export interface ImportItem {
+  id: string;
+  name: string;
+  status: ImportItemStatus;
+  titleCount?: number;
+  error?: string;
+}
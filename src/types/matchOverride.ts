@@ -0,0 +1,31 @@
+// Match Override Types
+
+// A user's correction: an OCR title always resolves to this TMDB/IMDb entry
+export interface MatchOverride {
+  key: string; // normalized OCR title
+  ocrTitle: string; // spelling the override was created from (display only)
+  tmdbId: number | null;
+  mediaType: 'movie' | 'tv' | null;
+  imdbId: string | null; // at least one of tmdbId and imdbId is set
+  title: string; // title of the bound entry
+  year?: number;
+  posterPath?: string;
+  updatedAt: number;
+}
+
+// The entry an override or a row added by id resolves to
+export type MatchTarget = Pick<MatchOverride, 'tmdbId' | 'mediaType' | 'imdbId' | 'title' | 'year' | 'posterPath'>;
+
+// Shareable file format of the override table
+export interface MatchOverrideExport {
+  format: 'filmScanner.matchOverrides';
+  version: 1;
+  exportedAt: string;
+  overrides: MatchOverride[];
+}
+
+export interface MatchOverrideImportResult {
+  added: number;
+  updated: number;
+  skipped: number; // invalid entries or older than the local version
+}
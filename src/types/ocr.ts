@@ -0,0 +1,137 @@
+// OCR Provider Types
+import type { ScanProfile, ScanProfileId } from '@/types/scanProfile';
+import type { MatchTarget } from '@/types/matchOverride';
+
+export type OcrProviderId = 'gemini' | 'local';
+
+// 'auto' = Gemini first, on-device engine as fallback
+export type OcrProviderPreference = 'auto' | OcrProviderId;
+
+export type MediaTypeHint = 'movie' | 'series' | 'unknown';
+
+// Position of a detection relative to the image size (all values 0..1)
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A single title detected in an image, with optional hints for the matching pipeline
+export interface OcrDetection {
+  title: string;
+  year?: number;
+  mediaType?: MediaTypeHint;
+  season?: number;
+  originalTitle?: string;
+  confidence?: number; // 0..1, as estimated by the OCR model
+  box?: BoundingBox;
+  imageId?: string; // ScanImage the detection came from
+  profileId?: ScanProfileId; // scan profile used, carries matching hints
+  suspicion?: OcrGuardReason; // set by the output guard on text that is not a title, such detections are dropped
+  needsReview?: boolean; // held back from lookups until the user confirms the title
+  variants?: string[]; // other OCR spellings merged into this list entry
+  knownMatch?: MatchTarget; // added by IMDb/TMDB id, looked up without searching
+}
+
+// Why the output guard considers a detected text not to be a title
+export type OcrGuardReason = 'instruction' | 'url' | 'sentence' | 'uiText' | 'credits';
+
+// Why a whole response is held back for review instead of being looked up
+export type OcrReviewReason = 'instruction' | 'tooManyTitles' | 'mostlyRejected';
+
+// Failure categories the UI can react to differently
+export type OcrErrorCode =
+  | 'auth'
+  | 'quota'
+  | 'blocked'
+  | 'network'
+  | 'timeout'
+  | 'unparsable'
+  | 'cancelled'
+  | 'unavailable'
+  | 'unknown';
+
+// What the user can do about a failed scan
+export type OcrRecoveryAction = 'retry' | 'useOffline' | 'crop' | 'openSettings';
+
+export interface OcrRequestSettings {
+  timeoutMs: number; // per provider attempt
+  maxRetries: number; // for transient failures (network, timeout, quota, unparsable)
+}
+
+// 'auto' = tile only when the full frame already contains many titles
+export type TilingMode = 'off' | 'auto' | 'always';
+
+export interface TilingSettings {
+  mode: TilingMode;
+  gridSize: number; // tiles along the longer image edge
+  overlap: number; // 0..1, fraction of the image shared by neighbouring tiles
+  concurrency: number; // max parallel tile requests
+}
+
+export interface OcrRequestOptions {
+  allowTiling?: boolean; // false skips tiling regardless of the settings (e.g. live scan)
+  crop?: BoundingBox; // normalized user crop applied before OCR
+  profileId?: ScanProfileId; // defaults to the profile selected in the settings
+  provider?: OcrProviderPreference; // one-off override of the provider setting, e.g. an offline retry
+  escalateOnFewTitles?: boolean; // false: too few titles never retry on a stronger model (e.g. live scan frames)
+  onDetection?: (detection: OcrDetection) => void; // called for each full-frame title as soon as it is recognized
+  // Called once when the stream shows the scan will be held back (instruction-like text, too many titles):
+  // streaming stops and the titles reported so far should be withdrawn, the final result decides about the review
+  onStreamRollback?: () => void;
+  signal?: AbortSignal; // cancels preprocessing, pending requests and retries
+}
+
+// A captured photo kept alongside its detections for the annotated view
+export interface ScanImage {
+  id: string;
+  dataUrl: string;
+  capturedAt: number;
+  detections: OcrDetection[];
+  model?: string; // OCR model that recognized the titles
+}
+
+// Extra information stored with a scan result
+export interface ScanResultMeta {
+  imageId?: string; // pre-assigned when titles were streamed into the list before the result was complete
+  model?: string;
+}
+
+// Raw provider output together with the model that produced it
+export interface OcrExtraction {
+  detections: OcrDetection[];
+  model: string;
+}
+
+export interface OcrProviderContext {
+  profile: ScanProfile;
+  signal?: AbortSignal;
+  onDetection?: (detection: OcrDetection) => void;
+  minExpectedTitles: number; // fewer titles escalate to a stronger model, 0 disables that
+}
+
+export interface OcrProvider {
+  id: OcrProviderId;
+  label: string;
+  isAvailable: () => boolean;
+  isInitialized: () => boolean;
+  initialize: () => Promise<void>;
+  timeoutFactor?: number; // multiplies the configured request timeout (slow on-device inference)
+  getCacheKey: (profile: ScanProfile) => string; // model + prompt identity, changes invalidate cached results
+  // Providers that stream may report detections early; the resolved list is always complete
+  extractDetections: (imageUrl: string, context: OcrProviderContext) => Promise<OcrExtraction>;
+}
+
+export interface OcrResult {
+  detections: OcrDetection[];
+  imageUrl: string; // the (preprocessed) image the detections refer to
+  provider: OcrProviderId;
+  model: string; // model that produced the full-frame detections
+  profile: ScanProfileId;
+  usedFallback: boolean;
+  tileCount: number; // 0 if the image was processed as a single frame
+  fromCache: boolean; // full-frame result was served from the OCR cache
+  rejectedCount: number; // detections dropped by the output guard
+  review?: OcrReviewReason; // set if the detections are held back for review
+}
@@ -0,0 +1,15 @@
+// OCR Cache Types
+import type { OcrDetection, OcrProviderId } from '@/types/ocr';
+
+export interface OcrCacheEntry {
+  key: string; // sha256(image bytes) + provider cache key
+  provider: OcrProviderId;
+  detections: OcrDetection[];
+  model?: string; // missing in entries written before the model was recorded
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface OcrCacheStats {
+  entryCount: number;
+}
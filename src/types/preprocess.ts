@@ -0,0 +1,37 @@
+// Image Preprocessing Types
+import type { BoundingBox } from '@/types/ocr';
+
+export interface PreprocessSettings {
+  enabled: boolean;
+  maxEdge: number; // px, longest image edge sent to OCR
+  deskew: boolean;
+  enhanceContrast: boolean;
+  askForCrop: boolean;
+}
+
+export interface PreprocessOptions {
+  maxEdge: number;
+  deskew: boolean;
+  enhanceContrast: boolean;
+  quality: number; // JPEG quality 0..1
+  crop?: BoundingBox; // normalized crop rectangle
+}
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  skewAngle: number;
+}
+
+export interface PreprocessWorkerRequest {
+  id: number;
+  blob: Blob;
+  options: PreprocessOptions;
+}
+
+export type PreprocessWorkerResponse =
+  | ({ id: number; error?: undefined; blob: Blob } & Omit<PreprocessedImage, 'dataUrl'>)
+  | { id: number; error: string };
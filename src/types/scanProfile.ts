@@ -0,0 +1,27 @@
+// Scan Profile Types
+import type { MediaTypeHint } from '@/types/ocr';
+
+export type ScanProfileId = 'general' | 'streaming' | 'shelf' | 'poster' | 'tvGuide';
+
+// Rules applied to the OCR output of a profile before the titles reach the list
+export interface ScanProfilePostprocessRules {
+  stripPatterns: RegExp[]; // removed from every title (UI labels, format hints, air times...)
+  minConfidence?: number; // drop detections the model is less sure about
+  defaultMediaType?: MediaTypeHint; // used when the model couldn't tell
+}
+
+// Soft hints for the TMDB matching, weaker than what the OCR saw on the image
+export interface ScanProfileMatchingHints {
+  preferredMediaType?: 'movie' | 'tv';
+  releaseEra?: 'recent' | 'older';
+}
+
+export interface ScanProfile {
+  id: ScanProfileId;
+  label: string;
+  description: string;
+  promptHint: string; // appended to the base OCR prompt
+  minExpectedTitles: number; // fewer titles than this escalate the scan to a stronger model
+  postprocess: ScanProfilePostprocessRules;
+  matching: ScanProfileMatchingHints;
+}
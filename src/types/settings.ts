@@ -0,0 +1,40 @@
+// App Settings Types
+import type { OcrProviderPreference, OcrRequestSettings, TilingSettings } from '@/types/ocr';
+import type { PreprocessSettings } from '@/types/preprocess';
+import type { ScanProfileId } from '@/types/scanProfile';
+
+export interface GeminiGenerationSettings {
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export interface GeminiSettings {
+  models: string[]; // tried in order, later entries are the stronger fallbacks
+  generation: Record<ScanProfileId, GeminiGenerationSettings>;
+}
+
+// Language and region for TMDB lookups and the OCR prompt
+export interface LocaleSettings {
+  language: string; // TMDB language tag, e.g. "de-DE"
+  fallbackLanguages: string[]; // searched in order when the primary language finds nothing confident
+  region: string; // ISO 3166-1, e.g. "DE" (local release titles and dates)
+}
+
+// Custom API servers (caching proxy, local mock); an empty string keeps the default endpoint
+export interface ApiBaseUrlSettings {
+  tmdb: string;
+  omdb: string;
+  gemini: string;
+}
+
+export interface AppSettings {
+  ocrProvider: OcrProviderPreference;
+  ocrRequest: OcrRequestSettings;
+  gemini: GeminiSettings;
+  preprocessing: PreprocessSettings;
+  tiling: TilingSettings;
+  cacheOcrResults: boolean;
+  scanProfile: ScanProfileId;
+  locale: LocaleSettings;
+  apiBaseUrls: ApiBaseUrlSettings;
+}
@@ -59,8 +59,36 @@ export interface MovieWithImdbId {
   title: string;
   imdbId: string | null;
   tmdbId: number;
+  mediaType: 'movie' | 'tv';
   confidence: 'high' | 'medium' | 'low';
   year?: number;
+  candidates: MatchCandidate[]; // Ranked TMDB candidates, the automatic match first
+  matchedVariant?: TitleVariant; // Set when an alternative title or translation matched better than the search title
+  requestCount?: number; // TMDB requests the lookup needed (debugging)
+}
+
+// An exactly known entry, e.g. typed in or pasted as a link
+export type MovieReference =
+  | { source: 'imdb'; imdbId: string }
+  | { source: 'tmdb'; tmdbId: number; mediaType?: 'movie' | 'tv' }; // without a type movies are tried first
+
+// Another known title of a TMDB entry ("Stirb langsam" for "Die Hard")
+export interface TitleVariant {
+  title: string;
+  kind: 'alternative' | 'translation';
+  country?: string; // ISO 3166-1
+  language?: string; // ISO 639-1, translations only
+}
+
+// A ranked TMDB entry the user can switch an ambiguous match to
+export interface MatchCandidate {
+  tmdbId: number;
+  mediaType: 'movie' | 'tv';
+  title: string;
+  year?: number;
+  posterPath?: string;
+  score: number;
+  matchedVariant?: TitleVariant;
 }
 
 export interface TMDBSearchOptions {
@@ -69,3 +97,53 @@ export interface TMDBSearchOptions {
   year?: number;
   includeAdult?: boolean;
 }
+
+// Hints from OCR that narrow down the TMDB lookup
+export interface TitleLookupOptions extends TMDBSearchOptions {
+  fallbackLanguages?: string[]; // searched in order after `language`, defaults to the locale settings
+  mediaType?: 'movie' | 'tv';
+  originalTitle?: string;
+  // Soft hints from the scan profile, only used for ordering and scoring
+  preferredMediaType?: 'movie' | 'tv';
+  releaseEra?: 'recent' | 'older';
+}
+
+export type CandidateScoringHints = Pick<TitleLookupOptions, 'mediaType' | 'preferredMediaType' | 'releaseEra' | 'year'>;
+
+// Network requests of one title lookup; identical requests already in flight are shared
+export interface TmdbRequestStats {
+  requests: number;
+  sharedRequests: number;
+}
+
+// How a streaming service offers a title
+export type WatchOfferType = 'flatrate' | 'free' | 'ads' | 'rent' | 'buy';
+
+export interface TMDBWatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+  display_priority: number;
+}
+
+// Offers of one region; `link` is TMDB's overview page for the title
+export type TMDBWatchProviderRegion = { link?: string } & Partial<Record<WatchOfferType, TMDBWatchProvider[]>>;
+
+// /{movie|tv}/{id}/watch/providers, keyed by ISO 3166-1 region (data by JustWatch)
+export interface TMDBWatchProvidersResponse {
+  id: number;
+  results: Record<string, TMDBWatchProviderRegion>;
+}
+
+export interface WatchProvider {
+  id: number;
+  name: string;
+  logoPath: string | null;
+}
+
+// Where a title can be watched in the configured region
+export interface WatchAvailability {
+  region: string;
+  link: string | null;
+  offers: Partial<Record<WatchOfferType, WatchProvider[]>>; // each list ordered by TMDB's display priority
+}
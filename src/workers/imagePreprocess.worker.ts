@@ -0,0 +1,198 @@
+import type { PreprocessOptions, PreprocessWorkerRequest, PreprocessWorkerResponse } from '@/types/preprocess';
+
+// Image preprocessing off the main thread: crop → downscale → deskew → contrast/glare correction
+
+const DESKEW_MAX_ANGLE = 8; // degrees
+const DESKEW_ANALYSIS_EDGE = 400; // px, size of the image used for angle estimation
+const DESKEW_MIN_ANGLE = 1; // smaller angles are not worth the resampling
+
+// The app is compiled against the DOM lib, so describe the worker scope we actually use
+interface PreprocessWorkerScope {
+  addEventListener(type: 'message', listener: (event: MessageEvent<PreprocessWorkerRequest>) => void): void;
+  postMessage(message: PreprocessWorkerResponse): void;
+}
+
+const workerScope = self as unknown as PreprocessWorkerScope;
+
+workerScope.addEventListener('message', async (event: MessageEvent<PreprocessWorkerRequest>) => {
+  const { id, blob, options } = event.data;
+
+  try {
+    const result = await preprocess(blob, options);
+    const response: PreprocessWorkerResponse = { id, ...result };
+    workerScope.postMessage(response);
+  } catch (error) {
+    const response: PreprocessWorkerResponse = {
+      id,
+      error: error instanceof Error ? error.message : 'Bildvorverarbeitung fehlgeschlagen',
+    };
+    workerScope.postMessage(response);
+  }
+});
+
+async function preprocess(blob: Blob, options: PreprocessOptions) {
+  // EXIF orientation is applied while decoding (auto-rotation)
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  const originalWidth = bitmap.width;
+  const originalHeight = bitmap.height;
+
+  // 1. Optional user crop (normalized rectangle)
+  const crop = options.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const sourceX = Math.round(crop.x * originalWidth);
+  const sourceY = Math.round(crop.y * originalHeight);
+  const sourceWidth = Math.max(1, Math.round(crop.width * originalWidth));
+  const sourceHeight = Math.max(1, Math.round(crop.height * originalHeight));
+
+  // 2. Downscale to the configured max edge
+  const scale = Math.min(1, options.maxEdge / Math.max(sourceWidth, sourceHeight));
+  let canvas = new OffscreenCanvas(Math.round(sourceWidth * scale), Math.round(sourceHeight * scale));
+  let context = canvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // 3. Deskew slightly tilted photos
+  let skewAngle = 0;
+  if (options.deskew) {
+    skewAngle = estimateSkewAngle(canvas);
+    if (Math.abs(skewAngle) >= DESKEW_MIN_ANGLE) {
+      canvas = rotateCanvas(canvas, -skewAngle);
+      context = canvas.getContext('2d')!;
+    } else {
+      skewAngle = 0;
+    }
+  }
+
+  // 4. Contrast stretch and highlight compression against glare on glossy cases
+  if (options.enhanceContrast) {
+    const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+    enhanceContrast(imageData.data);
+    context.putImageData(imageData, 0, 0);
+  }
+
+  const outputBlob = await canvas.convertToBlob({ type: 'image/jpeg', quality: options.quality });
+
+  return {
+    blob: outputBlob,
+    width: canvas.width,
+    height: canvas.height,
+    originalWidth,
+    originalHeight,
+    skewAngle,
+  };
+}
+
+// Grayscale luminance of an RGBA buffer
+function toGrayscale(data: Uint8ClampedArray): Float32Array {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    gray[i] = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  }
+  return gray;
+}
+
+// Projection-profile skew estimation: text lines give the sharpest row histogram at the right angle
+function estimateSkewAngle(source: OffscreenCanvas): number {
+  const scale = Math.min(1, DESKEW_ANALYSIS_EDGE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const analysisCanvas = new OffscreenCanvas(width, height);
+  const analysisContext = analysisCanvas.getContext('2d')!;
+  analysisContext.drawImage(source, 0, 0, width, height);
+  const gray = toGrayscale(analysisContext.getImageData(0, 0, width, height).data);
+
+  // Use strong vertical gradients (top/bottom edges of letters) as ink points
+  const points: Array<[number, number]> = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 0; x < width; x++) {
+      const gradient = Math.abs(gray[(y + 1) * width + x] - gray[(y - 1) * width + x]);
+      if (gradient > 60) points.push([x, y]);
+    }
+  }
+  if (points.length < 100) return 0;
+
+  let bestAngle = 0;
+  let bestScore = -Infinity;
+  const binCount = Math.ceil(Math.hypot(width, height));
+
+  for (let angle = -DESKEW_MAX_ANGLE; angle <= DESKEW_MAX_ANGLE; angle += 0.5) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Float32Array(binCount * 2);
+
+    for (const [x, y] of points) {
+      const projected = Math.round(y * cos - x * sin) + binCount;
+      bins[projected]++;
+    }
+
+    let score = 0;
+    for (const count of bins) score += count * count;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+}
+
+// Rotate around the center, expanding the canvas so nothing is cut off
+function rotateCanvas(source: OffscreenCanvas, angle: number): OffscreenCanvas {
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const width = Math.round(source.width * cos + source.height * sin);
+  const height = Math.round(source.width * sin + source.height * cos);
+
+  const rotated = new OffscreenCanvas(width, height);
+  const context = rotated.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.translate(width / 2, height / 2);
+  context.rotate(radians);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return rotated;
+}
+
+// Stretch the 2nd–98th luminance percentile to the full range and compress highlights
+function enhanceContrast(data: Uint8ClampedArray) {
+  const histogram = new Uint32Array(256);
+  const pixelCount = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+  }
+
+  const findPercentile = (fraction: number) => {
+    const target = pixelCount * fraction;
+    let cumulative = 0;
+    for (let value = 0; value < 256; value++) {
+      cumulative += histogram[value];
+      if (cumulative >= target) return value;
+    }
+    return 255;
+  };
+
+  const low = findPercentile(0.02);
+  const high = Math.max(low + 1, findPercentile(0.98));
+  const range = high - low;
+  const glareKnee = 235;
+
+  const lookup = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    let stretched = ((value - low) / range) * 255;
+    // Soft knee: pull blown-out reflections back so lettering stays readable
+    if (stretched > glareKnee) {
+      stretched = glareKnee + (stretched - glareKnee) * 0.4;
+    }
+    lookup[value] = stretched;
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lookup[data[i]];
+    data[i + 1] = lookup[data[i + 1]];
+    data[i + 2] = lookup[data[i + 2]];
+  }
+}